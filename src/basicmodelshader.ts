@@ -56,6 +56,8 @@ export class BasicModelShader extends Shader {
         this.uniforms.view_matrix = this.getUniformLocation("view_matrix");
         this.uniforms.model_view_projection_matrix = this.getUniformLocation("model_view_projection_matrix");
         this.uniforms.camera_pos = this.getUniformLocation("camera_pos");
+        this.uniforms.displacement_enabled = this.getUniformLocation("displacement_enabled");
+        this.uniforms.height_map_size = this.getUniformLocation("height_map_size");
         this.uniforms.tween_enabled = this.getUniformLocation("tween_enabled");
         this.uniforms.tween_factor = this.getUniformLocation("tween_factor");
         this.uniforms.material_transparency_texture = this.getUniformLocation("material.transparency_texture");
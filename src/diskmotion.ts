@@ -0,0 +1,91 @@
+import {vec3} from "gl-matrix";
+
+export enum Disk_Motion_Type {
+    //Moves back and forth between where it starts and to
+    LINEAR = "linear",
+    //Circles around center without turning
+    ORBIT = "orbit",
+    //Turns in place around its own center
+    SPIN = "spin"
+}
+
+//How a disk moves over time, starting from the position in its description
+export interface DiskMotion {
+    type: Disk_Motion_Type;
+    //Seconds for one trip there and back, orbit or turn. Negative orbits and spins go clockwise
+    period: number;
+    //The other end of a linear motion, null for the other types
+    to: { x: number; y: number; z: number } | null;
+    //The point an orbit circles around, null for the other types
+    center: { x: number; z: number } | null;
+}
+
+export const DISK_MOTION_TYPES: string[] = Object.keys(Disk_Motion_Type).map(
+    key => Disk_Motion_Type[key as keyof typeof Disk_Motion_Type]
+);
+
+//Positions of moving disks at a time
+export namespace DiskMotions {
+    //Sets out to where a disk that starts at origin is at time_s
+    //Returns how far the disk has turned around its center in radians
+    export function evaluate(out: vec3, motion: DiskMotion, origin: vec3, time_s: number): number {
+        let cycles = time_s / motion.period;
+        switch (motion.type) {
+            case Disk_Motion_Type.LINEAR: {
+                //Eases in and out at each end
+                let t = (1 - Math.cos(cycles * Math.PI * 2)) / 2;
+                vec3.set(
+                    out,
+                    origin[0] + (motion.to.x - origin[0]) * t,
+                    origin[1] + (motion.to.y - origin[1]) * t,
+                    origin[2] + (motion.to.z - origin[2]) * t
+                );
+                return 0;
+            }
+            case Disk_Motion_Type.ORBIT: {
+                let dx = origin[0] - motion.center.x;
+                let dz = origin[2] - motion.center.z;
+                let angle = Math.atan2(dz, dx) + cycles * Math.PI * 2;
+                let radius = Math.hypot(dx, dz);
+                vec3.set(
+                    out,
+                    motion.center.x + Math.cos(angle) * radius,
+                    origin[1],
+                    motion.center.z + Math.sin(angle) * radius
+                );
+                return 0;
+            }
+            case Disk_Motion_Type.SPIN:
+                vec3.copy(out, origin);
+                return cycles * Math.PI * 2;
+        }
+        throw "Unknown disk motion: " + motion.type;
+    }
+
+    //Sets out to the center of a circle on the XZ plane the disk's center never leaves
+    //Returns the radius of the circle
+    export function bounds(out: vec3, motion: DiskMotion, origin: vec3): number {
+        switch (motion.type) {
+            case Disk_Motion_Type.LINEAR:
+                vec3.set(out, (origin[0] + motion.to.x) / 2, 0, (origin[2] + motion.to.z) / 2);
+                return Math.hypot(motion.to.x - origin[0], motion.to.z - origin[2]) / 2;
+            case Disk_Motion_Type.ORBIT:
+                vec3.set(out, motion.center.x, 0, motion.center.z);
+                return Math.hypot(origin[0] - motion.center.x, origin[2] - motion.center.z);
+            case Disk_Motion_Type.SPIN:
+                vec3.set(out, origin[0], 0, origin[2]);
+                return 0;
+        }
+        throw "Unknown disk motion: " + motion.type;
+    }
+
+    //Returns a copy that shares nothing with the motion
+    export function clone(motion: DiskMotion): DiskMotion {
+        return {
+            type: motion.type,
+            period: motion.period,
+            to: motion.to ? { ...motion.to } : null,
+            center: motion.center ? { ...motion.center } : null
+        };
+    }
+}
@@ -6,6 +6,7 @@ import {vec3} from "gl-matrix";
 import {Random} from "../helpers/random";
 import {Collision} from "../helpers/collision";
 import {MathHelper} from "../helpers/mathhelper";
+import {Terrain_Effect} from "../terrain";
 import vec3_truncate = MathHelper.vec3_truncate;
 
 enum Bat_State {
@@ -29,27 +30,39 @@ export class Bat extends Entity {
     private state: Bat_State;
     public velocity: vec3;
     private target_position: vec3;
+    private readonly random: Random;
     public ignore_timer: number = 0;
 
     public readonly S_MAX = 5.0;
     private readonly S_MIN = 1.0;
     private readonly A_MAX = 8.0;
 
-    constructor(model: BasicModel, player: Readonly<Player>, world: Readonly<World>) {
+    constructor(
+        model: BasicModel,
+        player: Readonly<Player>,
+        world: Readonly<World>,
+        random: Random,
+        position?: vec3
+    ) {
         super(model.mesh.name, Model_Type.BASIC);
         this.player = player;
         this.world = world;
+        this.random = random;
         this.radius = model.radius;
         this.half_height = model.half_height;
         this.state = Bat_State.EXPLORE;
 
-        this.velocity = vec3.fromValues(Random.randf(0, this.S_MAX), 0, Random.randf(0, this.S_MAX));
+        this.velocity = vec3.fromValues(this.random.randf(0, this.S_MAX), 0, this.random.randf(0, this.S_MAX));
         vec3.normalize(this.forward, this.velocity);
 
-        this.position = this.world.getRandomXZPosition(vec3.create());
-        this.position[1] = 15.0;
+        if (position) {
+            this.position = vec3.clone(position);
+        } else {
+            this.position = this.world.getRandomXZPosition(vec3.create(), this.random);
+            this.position[1] = 15.0;
+        }
 
-        this.target_position = this.world.getRandomXZPosition(vec3.create());
+        this.target_position = this.world.getRandomXZPosition(vec3.create(), this.random);
         this.target_position[1] = 15.0;
     }
 
@@ -62,6 +75,14 @@ export class Bat extends Entity {
         if (this.ignore_timer < 0) this.ignore_timer = 0;
 
         if (this.world.isCylinderCollisionWithDisk(this.position, this.radius, 0)) {
+            let disk = this.world.getDiskAtPosition(this.position[0], this.position[2], this.radius);
+            if (disk && disk.getEffect() === Terrain_Effect.BOUNCY) {
+                //Bounce off instead of crashing
+                this.position[1] = this.world.getHeightAtPointPosition(this.position[0], this.position[2]) + 0.01;
+                this.velocity[1] = Math.max(this.velocity[1], 0) + disk.getEffectStrength();
+                return;
+            }
+            //Crashed into the ground or burnt in lava
             this.state = Bat_State.DEAD;
             this.ignore_timer = 1.0;
             return;
@@ -98,7 +119,7 @@ export class Bat extends Entity {
         if (
             Collision.cylinderIntersection(this.position, this.radius, this.half_height, this.target_position, 2.0, 1.0)
         ) {
-            this.target_position = this.world.getRandomXZPosition(this.target_position);
+            this.target_position = this.world.getRandomXZPosition(this.target_position, this.random);
             this.target_position[1] = 15.0;
         }
         this.seek(delta_s);
@@ -1,24 +1,42 @@
 import {vec2, vec3} from "gl-matrix";
 import {BasicModel} from "./models/basicmodel";
 import {MeshlessModel} from "./models/meshlessmodel";
-import {Noisefield} from "../noisefield";
+import {DisplacedModel} from "./models/displacedmodel";
+import {HeightMapGrid} from "./models/heightmapgrid";
 import {Entity, Model_Type} from "./entity";
 import {MathHelper} from "../helpers/mathhelper";
 import {Random} from "../helpers/random";
-
+import {Terrain_Effect, TerrainDefinition, TerrainRegistry} from "../terrain";
+import {HeightMapGenerators} from "../heightmapgenerators";
+import {HeightImageReference, HeightMapImages} from "../heightmapimages";
+import {HeightMapErosion} from "../heightmaperosion";
+import {Material} from "../lib/OBJ";
+import {DiskMotion, DiskMotions} from "../diskmotion";
+
+//The built in terrain types. More can be added to /assets/config/terrains.json
+//Any terrain id in the TerrainRegistry can be used as a Terrain
 export enum Terrain {
     RED_ROCK = 0,
     LEAFY = 1,
     ICY = 2,
     SANDY = 3,
-    GREY_ROCK = 4
+    GREY_ROCK = 4,
+    LAVA = 5,
+    BOUNCY = 6,
+    CONVEYOR = 7,
+    STICKY_MUD = 8
+}
+
+//The flags a disk can have in the flags column of a version 2 disk file
+export enum Disk_Flag {
+    NONE = 0,
+    //The player spawns on this disk
+    PLAYER_SPAWN = 1,
+    //No rod is placed on this disk
+    NO_ROD = 2
 }
 
-const RED_ROCK_SIZE = 16;
-const LEAFY_SIZE = 32;
-const ICY_SIZE = 48;
-const SANDY_SIZE = 64;
-const GREY_ROCK_SIZE = 80;
+const EROSION_STREAM = 1;
 
 let p0 = vec3.create();
 let p1 = vec3.create();
@@ -28,6 +46,9 @@ let p = vec2.create();
 let p00 = vec2.create();
 let p11 = vec2.create();
 let p22 = vec2.create();
+let moved = vec3.create();
+let carried = vec3.create();
+const ORIGIN = vec3.fromValues(0, 0, 0);
 
 export class Disk extends Entity {
     initialized: boolean;
@@ -37,26 +58,71 @@ export class Disk extends Entity {
     heightMap: number[][];
     radius: number;
     type: Terrain;
+    terrain: TerrainDefinition;
     heightMapSize: number;
+    height_map_material: Material;
+    //Heightmap seed, a random seed is picked on init if it is null
+    seed: number | null;
+    //True if the heightmap was sculpted or loaded instead of generated from the seed
+    sculpted: boolean = false;
+    //Image the heightmap is sampled from instead of the generator, it has to be loaded before init
+    height_image: HeightImageReference | null = null;
+    flags: Disk_Flag = Disk_Flag.NONE;
+    //How the disk moves from its origin, null if it stays still
+    motion: DiskMotion | null = null;
+    //Where the disk is before it moves
+    readonly origin: vec3;
+    //How far the disk has turned around its center in radians, the heightmap turns with it
+    spin: number = 0;
+    //Where the disk was before the last motion update, for carrying what is on it
+    private last_position: vec3;
+    private last_spin: number = 0;
+    private random: Random;
+    //True if the heightmap was restored from a snapshot, it isn't saved with the disk like a sculpted one
+    private cached: boolean = false;
     static height_map_model_gen_count = 0;
-
-    constructor(disk_model: BasicModel, type: Terrain, radius: number, x: number, y: number, z: number) {
+    //Draw heightmaps with the shared grid displaced on the GPU instead of a mesh per disk
+    //heightMap is still what collisions use either way
+    static gpu_displacement = false;
+
+    //Disks without a model are headless, they only get a heightmap with initHeightMap for use without WebGL
+    constructor(
+        disk_model: BasicModel | null,
+        height_map_material: Material,
+        type: Terrain,
+        radius: number,
+        x: number,
+        y: number,
+        z: number,
+        seed: number | null = null,
+        height_map: number[][] | null = null
+    ) {
         super(
-            disk_model.mesh.name,
+            disk_model ? disk_model.mesh.name : "",
             Model_Type.BASIC,
             vec3.fromValues(x, y, z),
             vec3.fromValues(0, 0, 0),
             vec3.fromValues(radius, 1, radius)
         );
-        if (!disk_model.initialized) throw "DiskModel was not initialized";
+        if (disk_model && !disk_model.initialized) throw "DiskModel was not initialized";
         this.model = disk_model;
         this.radius = radius;
         this.type = type;
+        this.terrain = TerrainRegistry.get(type);
+        this.height_map_material = height_map_material;
+        this.seed = seed;
+        this.origin = vec3.fromValues(x, y, z);
+        this.last_position = vec3.fromValues(x, y, z);
+        if (height_map) {
+            this.heightMap = height_map.map(row => row.slice());
+            this.sculpted = true;
+        }
         this.initialized = false;
     }
 
     init(gl: WebGL2RenderingContext) {
-        this.generateHeightMapModels(gl);
+        this.initHeightMap();
+        this.generateHeightMapModel(gl);
         this.heightMapModel.init(gl);
         let corner = this.radius * Math.SQRT2 / 2;
         let scale = vec3.fromValues(corner * 2 / this.heightMapSize, 1, corner * 2 / this.heightMapSize);
@@ -66,343 +132,156 @@ export class Disk extends Entity {
         this.initialized = true;
     }
 
-    private generateHeightMapModels(gl: WebGL2RenderingContext) {
-        switch (this.type) {
-            case Terrain.RED_ROCK:
-                this.heightMapSize = RED_ROCK_SIZE;
-                this.initRedRockHeightMap();
-                break;
-            case Terrain.LEAFY:
-                this.heightMapSize = LEAFY_SIZE;
-                this.initLeafyHeightMap();
-                break;
-            case Terrain.ICY:
-                this.heightMapSize = ICY_SIZE;
-                this.initIcyHeightMap();
-                break;
-            case Terrain.SANDY:
-                this.heightMapSize = SANDY_SIZE;
-                this.initSandyHeightMap();
-                break;
-            case Terrain.GREY_ROCK:
-                this.heightMapSize = GREY_ROCK_SIZE;
-                this.initGreyRockHeightMap();
-                break;
-        }
-        this.generateHeightMapModel(gl);
+    //Uses a heightmap saved from this disk's seed and terrain instead of generating it again on init
+    public useCachedHeightMap(height_map: number[][]): void {
+        if (this.initialized) throw "Cached heightmaps must be set before the disk is initialized";
+        this.heightMap = height_map.map(row => row.slice());
+        this.cached = true;
     }
 
-    private generateHeightMapModel(gl: WebGL2RenderingContext) {
-        let vert_buffer_size = (this.heightMapSize + 1) * (this.heightMapSize + 1);
-        let verts: Float32Array = new Float32Array(vert_buffer_size * 8);
-        let count = 0;
-        for (let x = 0; x < this.heightMapSize + 1; x++) {
-            for (let z = 0; z < this.heightMapSize + 1; z++) {
-                //Position
-                verts[count++] = x - this.heightMapSize / 2;
-                verts[count++] = this.heightMap[x][z] + 0.00001;
-                verts[count++] = z - this.heightMapSize / 2;
-
-                //Texture coords
-                verts[count++] = x / 16.0;
-                verts[count++] = z / 16.0;
-                //Normals
-                verts[count++] = 0;
-                verts[count++] = 0;
-                verts[count++] = 0;
+    //Makes the heightmap collisions and heights use without the models that draw it
+    public initHeightMap(): void {
+        if (this.seed === null) this.seed = Random.randomSeed();
+        this.random = new Random(this.seed);
+        if (this.sculpted || this.cached) {
+            this.heightMapSize = this.heightMap.length - 1;
+        } else if (this.height_image) {
+            this.heightMapSize = this.terrain.height_map_size;
+            let image = HeightMapImages.get(this.height_image.file);
+            this.heightMap = HeightMapImages.toHeightMap(image, this.heightMapSize, this.height_image.scale);
+        } else {
+            this.heightMapSize = this.terrain.height_map_size;
+            let generator = HeightMapGenerators.get(this.terrain.generator);
+            this.heightMap = generator(this.heightMapSize, this.random, this.terrain.generator_params);
+            //Erosion has its own stream so it doesn't change the generated heights
+            if (this.terrain.erosion) {
+                let erosion_random = new Random(Random.deriveSeed(this.seed, EROSION_STREAM));
+                HeightMapErosion.apply(this.heightMap, this.terrain.erosion, erosion_random);
             }
         }
+    }
 
-        let index_buffer_size = this.heightMapSize * this.heightMapSize * 6;
-        let indices = new Uint16Array(index_buffer_size);
-        count = 0;
-        //Create triangles using indices which reference vertices in the triangle strip
-        for (let i = 0; i < vert_buffer_size - (this.heightMapSize + 1); i += this.heightMapSize + 1) {
-            for (let j = 0; j < this.heightMapSize; j++) {
-                const v = i + j;
-
-                //0,1,2
-                indices[count++] = v + (this.heightMapSize + 1);
-                indices[count++] = v;
-                indices[count++] = v + (this.heightMapSize + 1) + 1;
-
-                //2,1,3
-                indices[count++] = v + (this.heightMapSize + 1) + 1;
-                indices[count++] = v;
-                indices[count++] = v + 1;
-            }
+    private generateHeightMapModel(gl: WebGL2RenderingContext) {
+        if (Disk.gpu_displacement) {
+            this.heightMapModel = new DisplacedModel(this.heightMap, this.height_map_material);
+            return;
         }
 
-        //Calculate the normals. For each faces normal we add it to the normals of the vertices used.
-        //Normals will be normalized in fragment shader
-        for (let i = 0; i < index_buffer_size - 2; i += 3) {
-            const i1 = indices[i] * 8;
-            const i2 = indices[i + 1] * 8;
-            const i3 = indices[i + 2] * 8;
-
-            //Find normal using cross product
-            // // (v2 - v1) cross (v3 - v1)
-            let norm = new Array(3);
+        let verts = HeightMapGrid.createVertices(this.heightMapSize, this.heightMap);
+        let grid = HeightMapGrid.createIndices(this.heightMapSize);
+        this.addFaceNormals(verts, 0, 0, this.heightMapSize, this.heightMapSize);
 
-            const ax = verts[i2] - verts[i1],
-                ay = verts[i2 + 1] - verts[i1 + 1],
-                az = verts[i2 + 2] - verts[i1 + 2];
-            const bx = verts[i3] - verts[i1],
-                by = verts[i3 + 1] - verts[i1 + 1],
-                bz = verts[i3 + 2] - verts[i1 + 2];
+        this.heightMapModel = new MeshlessModel(verts, grid.indices, this.height_map_material, grid.lods);
+    }
 
-            norm[0] = ay * bz - az * by;
-            norm[1] = az * bx - ax * bz;
-            norm[2] = ax * by - ay * bx;
+    //Replaces the heightmap model with one from the current heightmap, for after gpu_displacement changed
+    public rebuildHeightMapModel(gl: WebGL2RenderingContext): void {
+        this.heightMapModel.destroy(gl);
+        this.generateHeightMapModel(gl);
+        this.heightMapModel.init(gl);
+        this.heightMapEntity.mesh_name = this.heightMapModel.name;
+        Disk.height_map_model_gen_count++;
+    }
 
-            //Add to the existing normals
-            verts[i1 + 5] += norm[0];
-            verts[i1 + 6] += norm[1];
-            verts[i1 + 7] += norm[2];
-            verts[i2 + 5] += norm[0];
-            verts[i2 + 6] += norm[1];
-            verts[i2 + 7] += norm[2];
-            verts[i3 + 5] += norm[0];
-            verts[i3 + 6] += norm[1];
-            verts[i3 + 7] += norm[2];
+    //Updates the heightmap model after heightMap[x0..x1][z0..z1] was changed
+    //Only the changed vertices and the normals around them are recalculated
+    public updateHeightMapModel(gl: WebGL2RenderingContext, x0: number, z0: number, x1: number, z1: number): void {
+        if (this.heightMapModel instanceof DisplacedModel) {
+            this.heightMapModel.updateHeights(gl, this.heightMap, x0, z0, x1, z1);
+            return;
         }
 
-        this.heightMapModel = new MeshlessModel(verts, indices, this.model.mesh.materialsByIndex[2]);
-    }
+        const n = this.heightMapSize + 1;
+        let verts = this.heightMapModel.data;
 
-    private initRedRockHeightMap() {
-        this.heightMap = [];
-        let heights = [];
-        heights.push(0, 0);
-        for (let i = 2; i <= this.heightMapSize / 2; i++) {
-            let a = heights[i - 1];
-            heights.push(Math.round((a + Math.random() * 3 - 1) * 1e1) / 1e1);
+        for (let x = x0; x <= x1; x++) {
+            for (let z = z0; z <= z1; z++) {
+                verts[(x * n + z) * 8 + 1] = this.heightMap[x][z] + 0.00001;
+            }
         }
 
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            this.heightMap[x] = [];
-            let max = x > this.heightMapSize / 2 ? this.heightMapSize - x : x;
-            for (let z = 0; z <= this.heightMapSize; z++) {
-                if (z > this.heightMapSize - max) max--;
-                let a = z;
-                if (a > max) a = max;
-                this.heightMap[x].push(heights[a]);
+        //The normals of the vertices next to the changed ones change too
+        let nx0 = Math.max(x0 - 1, 0);
+        let nz0 = Math.max(z0 - 1, 0);
+        let nx1 = Math.min(x1 + 1, this.heightMapSize);
+        let nz1 = Math.min(z1 + 1, this.heightMapSize);
+        for (let x = nx0; x <= nx1; x++) {
+            for (let z = nz0; z <= nz1; z++) {
+                let i = (x * n + z) * 8;
+                verts[i + 5] = verts[i + 6] = verts[i + 7] = 0;
             }
         }
-    }
+        this.addFaceNormals(verts, nx0, nz0, nx1, nz1);
 
-    private initSandyHeightMap() {
-        this.heightMap = [];
-
-        let ns = new Noisefield(
-            16,
-            8,
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff),
-            Random.randi(0xffffffff)
-        );
+        //Rows of x are contiguous in the vertex buffer
+        this.heightMapModel.updateVertices(gl, nx0 * n, (nx1 - nx0 + 1) * n);
+    }
 
-        let xz_6 = new Array(this.heightMapSize + 1);
-        let pow_divisor = 1.0 - Math.pow(0.5, 6);
+    //Adds the normals of every face touching the vertices in [x0..x1][z0..z1] to those vertices
+    //Normals will be normalized in fragment shader
+    private addFaceNormals(verts: Float32Array, x0: number, z0: number, x1: number, z1: number): void {
+        const n = this.heightMapSize + 1;
+        let inside = (v: number) => {
+            let x = Math.floor(v / n);
+            let z = v - x * n;
+            return x >= x0 && x <= x1 && z >= z0 && z <= z1;
+        };
+        let addFace = (v1: number, v2: number, v3: number) => {
+            const i1 = v1 * 8;
+            const i2 = v2 * 8;
+            const i3 = v3 * 8;
 
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            let ux = x / this.heightMapSize;
-            xz_6[x] = Math.max(Math.pow(ux, 6), Math.pow(1.0 - ux, 6));
-        }
+            //Find normal using cross product
+            // (v2 - v1) cross (v3 - v1)
+            const ax = verts[i2] - verts[i1],
+                ay = verts[i2 + 1] - verts[i1 + 1],
+                az = verts[i2 + 2] - verts[i1 + 2];
+            const bx = verts[i3] - verts[i1],
+                by = verts[i3 + 1] - verts[i1 + 1],
+                bz = verts[i3 + 2] - verts[i1 + 2];
 
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            this.heightMap[x] = [];
+            const nx = ay * bz - az * by;
+            const ny = az * bx - ax * bz;
+            const nz = ax * by - ay * bx;
 
-            for (let z = 0; z <= this.heightMapSize; z++) {
-                let h = ns.perlineNoise(z, x);
-                let f = (1 - Math.max(xz_6[x], xz_6[z])) / pow_divisor;
-                this.heightMap[x].push(h * f);
+            //Add to the existing normals
+            for (let i of [v1, v2, v3]) {
+                if (!inside(i)) continue;
+                verts[i * 8 + 5] += nx;
+                verts[i * 8 + 6] += ny;
+                verts[i * 8 + 7] += nz;
             }
-        }
-    }
-
-    private initGreyRockHeightMap() {
-        this.heightMap = [];
-
-        let ns = [
-            new Noisefield(
-                32,
-                1.0,
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff)
-            ),
-            new Noisefield(
-                16,
-                7.0,
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff)
-            ),
-            new Noisefield(
-                8,
-                5.0,
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff)
-            ),
-            new Noisefield(
-                4,
-                3.5,
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff)
-            ),
-            new Noisefield(
-                2,
-                2.5,
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff),
-                Random.randi(0xffffffff)
-            )
-        ];
-
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            this.heightMap[x] = [];
-
-            for (let z = 0; z <= this.heightMapSize; z++) {
-                let h =
-                    ns[0].perlineNoise(z, x) +
-                    ns[1].perlineNoise(z, x) +
-                    ns[2].perlineNoise(z, x) +
-                    ns[3].perlineNoise(z, x) +
-                    ns[4].perlineNoise(z, x);
-
-                let ux = x / this.heightMapSize;
-                let uy = z / this.heightMapSize;
-                let f =
-                    (1 -
-                        Math.max(
-                            Math.max(Math.pow(ux, 6), Math.pow(1.0 - ux, 6)),
-                            Math.max(Math.pow(uy, 6), Math.pow(1.0 - uy, 6))
-                        )) /
-                    (1.0 - Math.pow(0.5, 6));
-                this.heightMap[x].push(h * f);
+        };
+
+        //Every cell that has a corner in the range. Same triangles as the index buffer
+        for (let x = Math.max(x0 - 1, 0); x <= Math.min(x1, this.heightMapSize - 1); x++) {
+            for (let z = Math.max(z0 - 1, 0); z <= Math.min(z1, this.heightMapSize - 1); z++) {
+                const v = x * n + z;
+                addFace(v + n, v, v + n + 1);
+                addFace(v + n + 1, v, v + 1);
             }
         }
     }
 
-    private initIcyHeightMap() {
-        let points = [];
-
-        let h = this.heightMapSize / 2;
-        for (let i = 0; i < 200; i++) {
-            let d1 = Math.random() * h;
-            let d2 = Math.random() * h;
-            let d3 = Math.random() * h;
-            let d4 = Math.random() * h;
-            let d = Math.max(d1, d2, d3, d4);
-            let a = Math.random() * Math.PI * 2;
-            let x = h + Math.cos(a) * d;
-            let z = h + Math.sin(a) * d;
-            let m = (h - d) * 0.7;
-            let y = Math.random() * (m + m) - m;
-            points.push([x, y, z]);
-        }
-        this.heightMap = new Array(this.heightMapSize + 1);
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            this.heightMap[x] = new Array(this.heightMapSize + 1);
-            for (let z = 0; z <= this.heightMapSize; z++) {
-                let min = 0,
-                    max = 0;
-                for (let i = 0; i < points.length; i++) {
-                    let x2 = (points[i][0] - x) * (points[i][0] - x);
-                    let z2 = (points[i][2] - z) * (points[i][2] - z);
-                    let distance = Math.sqrt(x2 + z2);
-                    max = Math.max(max, points[i][1] - distance);
-                    min = Math.min(min, points[i][1] + distance);
-                }
-                this.heightMap[x][z] = max + min;
-            }
-        }
+    //Number of heightmap cells per world unit
+    public getHeightMapScale(): number {
+        return (this.heightMapSize / 2.0) / (this.radius * Math.SQRT1_2);
     }
 
-    private initLeafyHeightMap() {
-        //Math.random() * (max - min) + min;
-        let LL = Math.random() * 2 - 1;
-        let LC = Math.random() * 2 - 1;
-        let LR = Math.random() * 2 - 1;
-        let RI = Math.random() * 2 - 1;
-        let RM = Math.random() * 2 - 1;
-        let RO = Math.random() * 2 - 1;
-
-        let a1 = Random.randi(7);
-        let a2 = Random.randi(7);
-        let ARM_COUNT = a1 < a2 ? a1 : a2;
-        let ARM_RADIANS = Math.random() * (Math.PI * 2);
-
-        let AI = Math.random();
-        let AM = Math.random();
-        let AO = Math.random();
-        if (Math.random() > 0.5) {
-            AI = -AI;
-            AM = -AM;
-            AO = -AO;
-        }
-
-        this.heightMap = new Array(this.heightMapSize + 1);
-
-        for (let x = 0; x <= this.heightMapSize; x++) {
-            this.heightMap[x] = new Array(this.heightMapSize + 1);
-            for (let z = 0; z <= this.heightMapSize; z++) {
-                let ux = x / this.heightMapSize;
-                let uy = z / this.heightMapSize;
-                let x2 = ux * 2 - 1;
-                let y2 = uy * 2 - 1;
-                let dist = Math.min(Math.sqrt(x2 * x2 + y2 * y2), 1);
-                let radians = Math.atan2(y2, x2);
-
-                let ll = Math.pow(ux, 4) * (1 - ux) * 12;
-                let lc = (Math.cos(Math.PI * x2) + 1) * 0.5;
-                let lr = Math.pow(1 - ux, 4) * ux * 12;
-                let lsum = ll * LL + lc * LC + lr * LR;
-
-                let ri = Math.pow(Math.max(1 - dist, 0), 2);
-                let rm = Math.sin(Math.PI * Math.min(Math.pow(dist, 0.8) * (4 / 3), 1));
-                let ro = Math.max(Math.sin(Math.PI * Math.pow(dist, 1.6)), 0);
-                let rsum = ri * RI + rm * RM + ro * RO;
-
-                let ai = (Math.sqrt(dist) - dist) * 4;
-                let am = Math.pow(dist, 2) * Math.pow(1 - dist, 2) * 16;
-                let ao = (Math.sqrt(1 - dist) - (1 - dist)) * 4;
-                let asum = ai * AI + am * AM + ao * AO;
-
-                let non_arm_height = lsum * rsum;
-                let arm_radians = radians * ARM_COUNT + ARM_RADIANS;
-                let arm_magnitude = (Math.sin(arm_radians) + 1.0) * 0.5;
-                let arm_height = arm_magnitude * asum;
-                this.heightMap[x][z] = non_arm_height * 5 + arm_height * 3;
-            }
+    //Sets out to the position in the heightmap of the world position x, z
+    public toHeightMapPosition(out: vec2, x: number, z: number): vec2 {
+        let scale = this.getHeightMapScale();
+        let dx = x - this.position[0];
+        let dz = z - this.position[2];
+        //Turn the position back by the spin so it lines up with the heightmap
+        if (this.spin !== 0) {
+            let cos = Math.cos(this.spin);
+            let sin = Math.sin(this.spin);
+            let turned_x = dx * cos - dz * sin;
+            dz = dx * sin + dz * cos;
+            dx = turned_x;
         }
+        return vec2.set(out, dx * scale + this.heightMapSize / 2.0, dz * scale + this.heightMapSize / 2.0);
     }
 
     // draw(gl: WebGL2RenderingContext, view_matrix: mat4, projection_matrix: mat4) {
@@ -433,81 +312,92 @@ export class Disk extends Entity {
     //     this.heightMapModel.draw(gl);
     // }
 
+    //Moves the disk and its heightmap without regenerating the heightmap
+    //The origin moves the same amount so a moving disk keeps moving from where it was put
+    public setPosition(x: number, y: number, z: number): void {
+        vec3.add(this.origin, this.origin, vec3.sub(moved, vec3.set(moved, x, y, z), this.position));
+        this.moveTo(x, y, z);
+        vec3.copy(this.last_position, this.position);
+    }
+
+    //Moves and turns the disk to where its motion puts it at time_s
+    public updateMotion(time_s: number): void {
+        vec3.copy(this.last_position, this.position);
+        this.last_spin = this.spin;
+        if (!this.motion) return;
+        this.setSpin(DiskMotions.evaluate(moved, this.motion, this.origin, time_s));
+        this.moveTo(moved[0], moved[1], moved[2]);
+    }
+
+    //Moves and turns an entity standing on the disk the same as the disk did in the last motion update
+    public carry(entity: Entity): void {
+        let turn = this.spin - this.last_spin;
+        vec3.sub(carried, entity.position, this.last_position);
+        vec3.rotateY(carried, carried, ORIGIN, turn);
+        vec3.add(entity.position, this.position, carried);
+        vec3.rotateY(entity.forward, entity.forward, ORIGIN, turn);
+    }
+
+    //Turns the disk and its heightmap around the disk center
+    public setSpin(angle: number): void {
+        this.spin = angle;
+        vec3.set(this.forward, Math.sin(angle), 0, Math.cos(angle));
+        //Headless disks have no heightmap entity
+        if (this.heightMapEntity) vec3.copy(this.heightMapEntity.forward, this.forward);
+    }
+
+    private moveTo(x: number, y: number, z: number): void {
+        vec3.set(this.position, x, y, z);
+        if (this.heightMapEntity) vec3.set(this.heightMapEntity.position, x, y + 0.0001, z);
+    }
+
     public getSpeedFactor(): number {
-        switch (this.type) {
-            case Terrain.RED_ROCK:
-                return 1.0;
-            case Terrain.LEAFY:
-                return 0.5;
-            case Terrain.ICY:
-                return 0.25;
-            case Terrain.SANDY:
-                return 0.75;
-            case Terrain.GREY_ROCK:
-                return 1.0;
-        }
-        return 1.0;
+        return this.terrain.speed_factor;
     }
 
     public getAccelFactor(): number {
-        switch (this.type) {
-            case Terrain.RED_ROCK:
-                return 1.0;
-            case Terrain.LEAFY:
-                return 0.5;
-            case Terrain.ICY:
-                return 0.25;
-            case Terrain.SANDY:
-                return 0.25;
-            case Terrain.GREY_ROCK:
-                return 1.0;
-        }
-        return 1.0;
+        return this.terrain.accel_factor;
     }
 
     public getFriction(): number {
-        switch (this.type) {
-            case Terrain.RED_ROCK:
-                return 0.005;
-            case Terrain.LEAFY:
-                return 0.0001;
-            case Terrain.ICY:
-                return 0.5;
-            case Terrain.SANDY:
-                return 0.2;
-            case Terrain.GREY_ROCK:
-                return 0.005;
-        }
-        return 0.0001;
+        return this.terrain.friction;
     }
 
     public getSlopeFactor(): number {
-        switch (this.type) {
-            case Terrain.RED_ROCK:
-                return 0.4;
-            case Terrain.LEAFY:
-                return 1.0;
-            case Terrain.ICY:
-                return 0.2;
-            case Terrain.SANDY:
-                return 0.2;
-            case Terrain.GREY_ROCK:
-                return 0.4;
-        }
-        return 1.0;
+        return this.terrain.slope_factor;
+    }
+
+    public getEffect(): Terrain_Effect {
+        return this.terrain.effect;
+    }
+
+    public getEffectStrength(): number {
+        return this.terrain.effect_strength;
+    }
+
+    //Sets out to the velocity a conveyor disk carries things at x, z with. Zero if this is not a conveyor
+    //Conveyors turn counter clockwise when looking down on them
+    public getConveyorVelocity(out: vec3, x: number, z: number): vec3 {
+        vec3.set(out, 0, 0, 0);
+        if (this.terrain.effect !== Terrain_Effect.CONVEYOR) return out;
+
+        let dx = x - this.position[0];
+        let dz = z - this.position[2];
+        let length = Math.sqrt(dx * dx + dz * dz);
+        if (length === 0) return out;
+
+        let speed = this.terrain.effect_strength / length;
+        return vec3.set(out, dz * speed, 0, -dx * speed);
     }
 
     public getHeightAtPosition(x: number, z: number): number {
         //get x,z within the height map centered on the bottom left corner
-        let cx =
-            (x - this.position[0]) * (this.heightMapSize / 2.0) / (this.radius * Math.SQRT1_2) +
-            this.heightMapSize / 2.0;
-        let cz =
-            (z - this.position[2]) * (this.heightMapSize / 2.0) / (this.radius * Math.SQRT1_2) +
-            this.heightMapSize / 2.0;
+        this.toHeightMapPosition(p, x, z);
+        let cx = p[0];
+        let cz = p[1];
 
-        //If outside height map return 0
-        if (cx > this.heightMapSize || cx < 0 || (cz > this.heightMapSize || cz < 0)) return 0.0;
+        //If outside height map return the base of the disk
+        if (cx > this.heightMapSize || cx < 0 || (cz > this.heightMapSize || cz < 0)) return this.position[1];
 
         //Index in height map
         let ix = Math.floor(cx);
@@ -543,6 +433,36 @@ export class Disk extends Entity {
         MathHelper.barycentric(weights, p, p00, p11, p22);
         height = weights[0] * p0[1] + weights[1] * p1[1] + weights[2] * p2[1];
 
-        return height;
+        return this.position[1] + height;
+    }
+
+    //Sets out to the unit normal of the heightmap triangle under x, z
+    //Outside the heightmap the top of the disk is flat so the normal points straight up
+    public getNormalAtPosition(out: vec3, x: number, z: number): vec3 {
+        this.toHeightMapPosition(p, x, z);
+        let cx = p[0];
+        let cz = p[1];
+        if (cx > this.heightMapSize || cx < 0 || cz > this.heightMapSize || cz < 0) return vec3.set(out, 0, 1, 0);
+
+        //The far edge belongs to the last cell
+        let ix = Math.min(Math.floor(cx), this.heightMapSize - 1);
+        let kz = Math.min(Math.floor(cz), this.heightMapSize - 1);
+        let h = this.heightMap;
+
+        //Height change per heightmap cell along x and z on the same triangles as getHeightAtPosition
+        let dx: number;
+        let dz: number;
+        if (cx - ix > cz - kz) {
+            dx = h[ix + 1][kz] - h[ix][kz];
+            dz = h[ix + 1][kz + 1] - h[ix + 1][kz];
+        } else {
+            dx = h[ix + 1][kz + 1] - h[ix][kz + 1];
+            dz = h[ix][kz + 1] - h[ix][kz];
+        }
+
+        let scale = this.getHeightMapScale();
+        vec3.set(out, -dx * scale, 1, -dz * scale);
+        vec3.rotateY(out, out, ORIGIN, this.spin);
+        return vec3.normalize(out, out);
     }
 }
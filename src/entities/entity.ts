@@ -1,6 +1,9 @@
-import {vec3} from "gl-matrix";
+import {quat, vec3} from "gl-matrix";
 import {Guid} from "../lib/guid/guid";
 
+const Y_AXIS = vec3.fromValues(0, 1, 0);
+let lean = quat.create();
+
 export enum Model_Type {
     BASIC = 0,
     MESHLESS = 1,
@@ -15,6 +18,8 @@ export class Entity {
 
     public forward: vec3;
     public up: vec3 = vec3.fromValues(0, 1, 0);
+    //Direction the top of the model points when it is drawn, for leaning with the ground
+    public tilt: vec3 = vec3.fromValues(0, 1, 0);
 
     public mesh_name: string;
     public model_type: Model_Type;
@@ -38,4 +43,12 @@ export class Entity {
         vec3.cross(out, this.forward, this.up);
         return out;
     }
+
+    //Sets out to the rotation the model is drawn with
+    //Turned around Y to face forward then leaned over to the tilt
+    public getRotation(out: quat, rotation_offset: number = 0): quat {
+        quat.setAxisAngle(out, Y_AXIS, Math.atan2(this.forward[0], this.forward[2]) + rotation_offset);
+        quat.rotationTo(lean, Y_AXIS, this.tilt);
+        return quat.multiply(out, lean, out);
+    }
 }
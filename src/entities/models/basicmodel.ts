@@ -65,17 +65,19 @@ export class BasicModel {
     }
 
     initAllTextures(gl: WebGL2RenderingContext) {
-        for (let i in this.mesh.materialsByIndex) {
-            let material = this.mesh.materialsByIndex[i];
-            if (material.texturesInitialized) continue;
-            if (material.mapDiffuse) this.initTexture(gl, material.mapDiffuse);
-            if (material.mapAmbient) this.initTexture(gl, material.mapAmbient);
-            if (material.mapEmissive) this.initTexture(gl, material.mapEmissive);
-            if (material.mapTransparency) this.initTexture(gl, material.mapTransparency);
-            if (material.mapSpecular) this.initTexture(gl, material.mapSpecular);
-            if (material.mapSpecularExponent) this.initTexture(gl, material.mapSpecularExponent);
-            material.texturesInitialized = true;
-        }
+        for (let i in this.mesh.materialsByIndex) this.initMaterialTextures(gl, this.mesh.materialsByIndex[i]);
+    }
+
+    //Also for materials the mesh doesn't use, like the heightmap materials of terrains
+    initMaterialTextures(gl: WebGL2RenderingContext, material: Material) {
+        if (material.texturesInitialized) return;
+        if (material.mapDiffuse) this.initTexture(gl, material.mapDiffuse);
+        if (material.mapAmbient) this.initTexture(gl, material.mapAmbient);
+        if (material.mapEmissive) this.initTexture(gl, material.mapEmissive);
+        if (material.mapTransparency) this.initTexture(gl, material.mapTransparency);
+        if (material.mapSpecular) this.initTexture(gl, material.mapSpecular);
+        if (material.mapSpecularExponent) this.initTexture(gl, material.mapSpecularExponent);
+        material.texturesInitialized = true;
     }
 
     draw(gl: WebGL2RenderingContext, shader: Shader) {
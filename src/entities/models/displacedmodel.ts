@@ -0,0 +1,116 @@
+import {Material} from "../../lib/OBJ";
+import {HEIGHT_MAP_TEXTURE_UNIT, Shader} from "../../shader";
+import {MeshLod, MeshlessModel} from "./meshlessmodel";
+import {HeightMapGrid} from "./heightmapgrid";
+
+//A flat grid on the GPU shared by every heightmap with the same size
+interface SharedGrid {
+    data: Float32Array;
+    indices: Uint16Array | Uint32Array;
+    lods: MeshLod[];
+    VAO: WebGLVertexArrayObject;
+    buffer: WebGLBuffer;
+    index_buffer: WebGLBuffer;
+}
+
+const grids = new Map<number, SharedGrid>();
+
+function getGrid(size: number): SharedGrid {
+    let grid = grids.get(size);
+    if (grid === undefined) {
+        let indices = HeightMapGrid.createIndices(size);
+        grid = {
+            data: HeightMapGrid.createVertices(size),
+            indices: indices.indices,
+            lods: indices.lods,
+            VAO: null,
+            buffer: null,
+            index_buffer: null
+        };
+        grids.set(size, grid);
+    }
+    return grid;
+}
+
+//A heightmap drawn by displacing a shared grid in the vertex shader
+//The heights are uploaded as a float texture and the normals are found from it on the GPU
+export class DisplacedModel extends MeshlessModel {
+    readonly size: number;
+    //Heights indexed [x * (size + 1) + z], the same layout as the texture
+    heights: Float32Array;
+    height_texture: WebGLTexture;
+    private grid: SharedGrid;
+
+    constructor(height_map: number[][], mat: Material) {
+        let size = height_map.length - 1;
+        let grid = getGrid(size);
+        super(grid.data, grid.indices, mat, grid.lods);
+        this.size = size;
+        this.grid = grid;
+        this.heights = new Float32Array((size + 1) * (size + 1));
+        for (let x = 0; x <= size; x++) {
+            for (let z = 0; z <= size; z++) this.heights[x * (size + 1) + z] = height_map[x][z];
+        }
+    }
+
+    init(gl: WebGL2RenderingContext) {
+        //The grid buffers are only made by the first heightmap of each size
+        if (this.grid.VAO === null) {
+            super.init(gl);
+            this.grid.VAO = this.VAO;
+            this.grid.buffer = this.buffer;
+            this.grid.index_buffer = this.index_buffer;
+        } else {
+            this.VAO = this.grid.VAO;
+            this.buffer = this.grid.buffer;
+            this.index_buffer = this.grid.index_buffer;
+            this.index_type = this.indices instanceof Uint32Array ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT;
+            this.texture = this.material.mapDiffuse.texture;
+            this.initialized = true;
+        }
+
+        //Float textures can't be filtered without an extension so the shader reads them with texelFetch
+        this.height_texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, this.height_texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        //Rows of the texture are x and columns are z
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, this.size + 1, this.size + 1, 0, gl.RED, gl.FLOAT, this.heights);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+    }
+
+    //Uploads heightMap[x0..x1][z0..z1] after it was changed
+    updateHeights(gl: WebGL2RenderingContext, height_map: number[][], x0: number, z0: number, x1: number, z1: number) {
+        const n = this.size + 1;
+        let width = z1 - z0 + 1;
+        let rows = new Float32Array(width * (x1 - x0 + 1));
+        for (let x = x0; x <= x1; x++) {
+            for (let z = z0; z <= z1; z++) {
+                this.heights[x * n + z] = height_map[x][z];
+                rows[(x - x0) * width + (z - z0)] = height_map[x][z];
+            }
+        }
+        gl.bindTexture(gl.TEXTURE_2D, this.height_texture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, z0, x0, width, x1 - x0 + 1, gl.RED, gl.FLOAT, rows);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+    }
+
+    //The grid never changes, the heights are updated with updateHeights
+    updateVertices(gl: WebGL2RenderingContext, first: number, count: number) {}
+
+    //Only the texture is deleted since the grid is shared
+    destroy(gl: WebGL2RenderingContext) {
+        gl.deleteTexture(this.height_texture);
+        this.initialized = false;
+    }
+
+    //Turns on displacement in the shader with this heightmap
+    bindHeightMap(gl: WebGL2RenderingContext, shader: Shader) {
+        gl.activeTexture(gl.TEXTURE0 + HEIGHT_MAP_TEXTURE_UNIT);
+        gl.bindTexture(gl.TEXTURE_2D, this.height_texture);
+        shader.setBool(shader.uniforms.displacement_enabled, true);
+        shader.setFloat(shader.uniforms.height_map_size, this.size);
+    }
+}
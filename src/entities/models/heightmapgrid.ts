@@ -0,0 +1,83 @@
+import {MeshLod} from "./meshlessmodel";
+
+//Heightmap levels of detail, each has half the cells a side of the one before
+const MAX_LOD_LEVELS = 4;
+//The coarsest level still has at least this many cells a side
+const MIN_LOD_CELLS = 4;
+
+//The grid heightmap meshes are made of
+//Vertices are interleaved position, texture coords and normal with x rows of z columns
+export namespace HeightMapGrid {
+    export const STRIDE = 8;
+
+    //Vertices of a size by size cell grid centered on the origin
+    //Heights are 0 without a heightmap. Normals are left at 0 for the caller to fill
+    export function createVertices(size: number, height_map: number[][] | null = null): Float32Array {
+        let verts = new Float32Array((size + 1) * (size + 1) * STRIDE);
+        let count = 0;
+        for (let x = 0; x < size + 1; x++) {
+            for (let z = 0; z < size + 1; z++) {
+                //Position
+                verts[count++] = x - size / 2;
+                verts[count++] = height_map ? height_map[x][z] + 0.00001 : 0;
+                verts[count++] = z - size / 2;
+
+                //Texture coords
+                verts[count++] = x / 16.0;
+                verts[count++] = z / 16.0;
+                //Normals
+                verts[count++] = 0;
+                verts[count++] = 0;
+                verts[count++] = 0;
+            }
+        }
+        return verts;
+    }
+
+    //Every level of detail skips every other vertex of the one before it
+    //The whole heightmap switches level at once and the edge vertices are in every level
+    //so there are no cracks inside it and the edge still meets the top of the disk
+    export function createIndices(size: number): { indices: Uint16Array | Uint32Array; lods: MeshLod[] } {
+        let steps = [1];
+        while (steps.length < MAX_LOD_LEVELS) {
+            let step = steps[steps.length - 1] * 2;
+            if (size % step !== 0 || size / step < MIN_LOD_CELLS) break;
+            steps.push(step);
+        }
+
+        let index_buffer_size = steps.reduce((sum, step) => sum + (size / step) ** 2 * 6, 0);
+        //Heightmaps bigger than 255 cells a side have more vertices than 16 bit indices can reach
+        let indices =
+            (size + 1) * (size + 1) > 0x10000 ? new Uint32Array(index_buffer_size) : new Uint16Array(index_buffer_size);
+        let lods: MeshLod[] = [];
+        let count = 0;
+        for (let step of steps) {
+            let offset = count;
+            count = addGridIndices(indices, count, size, step);
+            lods.push({ step: step, offset: offset, count: count - offset });
+        }
+        return { indices: indices, lods: lods };
+    }
+
+    //Adds two triangles for each step by step cell starting at indices[count]
+    //Returns the count after the added indices
+    function addGridIndices(indices: Uint16Array | Uint32Array, count: number, size: number, step: number): number {
+        const n = size + 1;
+        for (let x = 0; x < size; x += step) {
+            for (let z = 0; z < size; z += step) {
+                const v = x * n + z;
+
+                //0,1,2
+                indices[count++] = v + step * n;
+                indices[count++] = v;
+                indices[count++] = v + step * n + step;
+
+                //2,1,3
+                indices[count++] = v + step * n + step;
+                indices[count++] = v;
+                indices[count++] = v + step;
+            }
+        }
+        return count;
+    }
+}
@@ -3,11 +3,27 @@ import {Material} from "../../lib/OBJ";
 import {BasicModelShader} from "../../basicmodelshader";
 import * as assert from "assert";
 
+//A range of the index buffer that draws the mesh with every step'th vertex
+export interface MeshLod {
+    step: number;
+    offset: number;
+    count: number;
+}
+
 export class MeshlessModel {
+    //Largest angle in radians a cell edge may cover on screen before a finer level is used
+    static lod_error: number = 0.02;
+
     name: string;
     VAO: WebGLVertexArrayObject;
     data: Float32Array;
-    indices: Uint16Array;
+    //32 bit indices are only used when there are too many vertices for 16 bit ones
+    indices: Uint16Array | Uint32Array;
+    index_type: number;
+    //Levels of detail from finest to coarsest
+    lods: MeshLod[];
+    //Distance from the origin to the furthest vertex on the XZ plane
+    bounding_radius: number;
     buffer: WebGLBuffer;
     index_buffer: WebGLBuffer;
     initialized: Boolean;
@@ -16,10 +32,15 @@ export class MeshlessModel {
     stride: number;
     rotation_offset: number;
 
-    constructor(data: Float32Array, indices: Uint16Array, mat: Material) {
+    constructor(data: Float32Array, indices: Uint16Array | Uint32Array, mat: Material, lods: MeshLod[] = null) {
         this.data = data;
         this.indices = indices;
+        this.lods = lods || [{ step: 1, offset: 0, count: indices.length }];
         this.stride = 8;
+        this.bounding_radius = 0;
+        for (let i = 0; i < data.length; i += this.stride) {
+            this.bounding_radius = Math.max(this.bounding_radius, Math.hypot(data[i], data[i + 2]));
+        }
         this.name = "height_map_model_" + Disk.height_map_model_gen_count;
         this.material = mat;
         assert(this.material.texturesInitialized);
@@ -45,10 +66,25 @@ export class MeshlessModel {
         gl.bindBuffer(gl.ARRAY_BUFFER, null);
         gl.bindVertexArray(null);
 
+        this.index_type = this.indices instanceof Uint32Array ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT;
         this.texture = this.material.mapDiffuse.texture;
         this.initialized = true;
     }
 
+    //Uploads the vertices in data[first..first + count] after they were changed
+    updateVertices(gl: WebGL2RenderingContext, first: number, count: number) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, first * this.stride * 4, this.data, first * this.stride, count * this.stride);
+        gl.bindBuffer(gl.ARRAY_BUFFER, null);
+    }
+
+    destroy(gl: WebGL2RenderingContext) {
+        gl.deleteBuffer(this.buffer);
+        gl.deleteBuffer(this.index_buffer);
+        gl.deleteVertexArray(this.VAO);
+        this.initialized = false;
+    }
+
     activateBuffers(gl) {
         gl.bindVertexArray(this.VAO);
         gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
@@ -65,7 +101,20 @@ export class MeshlessModel {
         this.drawActivatedMaterial(gl);
     }
 
-    drawActivatedMaterial(gl: WebGL2RenderingContext) {
-        gl.drawElements(gl.TRIANGLES, this.indices.length, gl.UNSIGNED_SHORT, 0);
+    //Returns the coarsest level that still looks right at the distance from the model's center
+    //scale is how big one unit of the model is in the world
+    selectLod(distance: number, scale: number): number {
+        let nearest = Math.max(distance - this.bounding_radius * scale, 0);
+        let lod = 0;
+        let max_cell_size = nearest * MeshlessModel.lod_error;
+        while (lod + 1 < this.lods.length && this.lods[lod + 1].step * scale <= max_cell_size) lod++;
+        return lod;
+    }
+
+    //Returns the number of triangles drawn at the level
+    drawActivatedMaterial(gl: WebGL2RenderingContext, lod: number = 0): number {
+        let level = this.lods[lod];
+        gl.drawElements(gl.TRIANGLES, level.count, this.index_type, level.offset * this.indices.BYTES_PER_ELEMENT);
+        return level.count / 3;
     }
 }
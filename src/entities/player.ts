@@ -1,27 +1,30 @@
-import {mat4, quat, vec2, vec3} from "gl-matrix";
+import {mat4, quat, vec3} from "gl-matrix";
 
 import {Player_State, PlayerModel} from "./models/playermodel";
 import {Entity, Model_Type} from "./entity";
-import {World} from "./world";
-import {MathHelper} from "../helpers/mathhelper";
+import {createTerrainSample, World} from "./world";
 import * as assert from "assert";
 import {Shader} from "../shader";
-import vec2_rotate = MathHelper.vec2_rotate;
+import {Terrain_Effect} from "../terrain";
+import {GRAVITY, JUMP_FORWARD_SPEED, JUMP_UP_SPEED} from "../jumpenvelope";
 
 const SPEED = 10;
-const JUMP_UP_SPEED = 12.0;
-const JUMP_FORWARD_SPEED = 8.0;
 
 const TURNING_DEGREES = 3.0;
 const ACCEL_FORWARD = 25.0;
 const ACCEL = 10.0;
+//How far the player leans towards the ground normal and how fast it gets there
+const TILT_AMOUNT = 0.5;
+const TILT_SPEED = 8.0;
 
 let old_pos = vec3.create();
 let new_pos = vec3.create();
 let accel = vec3.create();
-let dir = vec2.create();
-let min_direction = vec2.create();
-let GRAVITY = vec3.fromValues(0, -9.8, 0);
+let ground_normal = vec3.create();
+let conveyor_velocity = vec3.create();
+let ground = createTerrainSample();
+let gravity = vec3.fromValues(0, -GRAVITY, 0);
+const UP = vec3.fromValues(0, 1, 0);
 
 let model_matrix: mat4 = mat4.create();
 let q: quat = quat.create();
@@ -32,6 +35,8 @@ export class Player extends Entity {
 
     private velocity: vec3;
     private jumping: boolean;
+    //How much of the normal jump speed the ground allows
+    private jump_factor: number = 1.0;
 
     public radius: number;
     public half_height: number;
@@ -49,12 +54,16 @@ export class Player extends Entity {
         return this.velocity;
     }
 
+    //True while standing on a disk instead of jumping or falling
+    public isOnGround(): boolean {
+        return !this.jumping;
+    }
+
     public draw(gl: WebGL2RenderingContext, shader: Shader, view_matrix: mat4, proj_matrix: mat4, camera_pos: vec3) {
         assert(this.loaded);
 
         mat4.identity(model_matrix);
-        quat.identity(q);
-        quat.rotateY(q, q, Math.atan2(this.forward[0], this.forward[2]) - Math.PI / 2);
+        this.getRotation(q, -Math.PI / 2);
         mat4.fromRotationTranslation(model_matrix, q, this.position);
 
         this.model.draw(gl, shader, model_matrix, view_matrix, proj_matrix, camera_pos);
@@ -70,60 +79,78 @@ export class Player extends Entity {
         vec3.copy(old_pos, this.position);
         vec3.scaleAndAdd(new_pos, this.position, this.velocity, delta_time_s);
 
-        let player_base_y = world.getHeightAtCirclePosition(new_pos[0], new_pos[2], this.model.radius);
-        let player_y = player_base_y + this.model.half_height;
+        //The ground is the highest surface the player can step up to from where their feet were
+        let feet_y = this.position[1] - this.model.half_height;
+        let climb_y = feet_y + World.step_height;
+        world.sampleTerrain(ground, new_pos[0], new_pos[2], this.model.radius, climb_y);
+        let player_y = ground.height + this.model.half_height;
+
+        //A disk with a surface higher than the player can climb is a wall
+        if (world.getHeightAtCirclePosition(new_pos[0], new_pos[2], this.model.radius) > climb_y) {
+            this.velocity[0] = this.velocity[2] = 0;
+            new_pos[0] = old_pos[0];
+            new_pos[2] = old_pos[2];
+            world.sampleTerrain(ground, new_pos[0], new_pos[2], this.model.radius, climb_y);
+            player_y = ground.height + this.model.half_height;
+        }
 
         if (this.jumping) {
-            vec3.scaleAndAdd(this.velocity, this.velocity, GRAVITY, delta_time_s);
+            vec3.scaleAndAdd(this.velocity, this.velocity, gravity, delta_time_s);
 
             if (world.isCylinderCollisionWithDisk(new_pos, this.model.radius, this.model.half_height)) {
-                if (world.isCylinderCollisionWithDisk(old_pos, this.model.radius, this.model.half_height)) {
-                    //Collided from above disk. stop falling
-                    this.jumping = false;
-                    this.model.setState(Player_State.Standing);
-                    this.velocity[1] = 0;
+                //Collisions with the sides of disks were handled above so this is landing on the ground
+                if (ground.disk && new_pos[1] <= player_y) {
                     new_pos[1] = player_y;
-                } else {
-                    //Collided with side of disk. Stop forward velocity
-                    this.velocity[0] = this.velocity[2] = 0;
-                    new_pos[0] = old_pos[0];
-                    new_pos[2] = old_pos[2];
+                    if (ground.disk.getEffect() === Terrain_Effect.BOUNCY) {
+                        //Landed on a bouncy disk. launch back up
+                        this.velocity[1] = ground.disk.getEffectStrength();
+                        this.model.setState(Player_State.Jumping);
+                    } else {
+                        //Collided from above disk. stop falling
+                        this.jumping = false;
+                        this.model.setState(Player_State.Standing);
+                        this.velocity[1] = 0;
+                    }
                 }
             }
         } else {
             //Not jumping
-            if (world.isOnDisk(new_pos[0], new_pos[2], this.model.radius)) {
+            //Walking off the edge of a higher disk falls down to the next level instead of stepping down
+            if (ground.disk && ground.height >= feet_y - World.step_height) {
                 //Not Falling
-                new_pos[1] = player_y;
-                this.velocity[1] = 0;
+                let disk = ground.disk;
+                let effect = disk.getEffect();
 
-                //Apply friction
-                let friction = world.getFrictionAtPosition(new_pos[0], new_pos[2]);
-                vec3.scale(this.velocity, this.velocity, Math.pow(friction, delta_time_s));
+                if (effect === Terrain_Effect.LAVA) {
+                    this.reset(world);
+                    return;
+                }
 
-                //Apply Sliding
-                let min_slope = world.getSlopeFactorAtPosition(new_pos[0], new_pos[2]);
-                let min_height = player_base_y;
+                if (effect === Terrain_Effect.CONVEYOR) {
+                    disk.getConveyorVelocity(conveyor_velocity, new_pos[0], new_pos[2]);
+                    vec3.scaleAndAdd(new_pos, new_pos, conveyor_velocity, delta_time_s);
+                    world.sampleTerrain(ground, new_pos[0], new_pos[2], this.model.radius, climb_y);
+                    player_y = ground.height + this.model.half_height;
+                }
 
-                vec2.set(min_direction, 0, 0);
+                this.jump_factor = effect === Terrain_Effect.STICKY ? disk.getEffectStrength() : 1.0;
 
-                for (let i = 0; i < 60; i++) {
-                    //Rotate the direction so we get 60 equally spaced direction around circle
-                    vec2.set(dir, 1, 0);
-                    vec2_rotate(dir, dir, Math.PI * 2 * (i / 60));
+                new_pos[1] = player_y;
+                this.velocity[1] = 0;
 
-                    let h = world.getHeightAtPointPosition(new_pos[0] + dir[0] * 0.01, new_pos[2] + dir[1] * 0.01);
-                    if (h < min_height) {
-                        min_height = h;
-                        min_direction = dir;
-                    }
-                }
+                //Apply friction
+                vec3.scale(this.velocity, this.velocity, Math.pow(ground.friction, delta_time_s));
 
-                let slope = (player_base_y - min_height) / 0.01;
+                //Apply Sliding
+                //The normal leans downhill and its horizontal part is as long as the sine of the slope angle
+                vec3.copy(ground_normal, ground.normal);
+                let min_slope = ground.slope_factor;
+                let downhill = Math.sqrt(ground_normal[0] * ground_normal[0] + ground_normal[2] * ground_normal[2]);
+                let slope = downhill / ground_normal[1];
 
                 if (slope > min_slope) {
                     let a = (slope - min_slope) * 10.0 * delta_time_s;
-                    vec3.set(accel, min_direction[0], 0, min_direction[1]);
+                    vec3.set(accel, ground_normal[0] / downhill, 0, ground_normal[2] / downhill);
                     vec3.scale(accel, accel, a);
                     this.addAcceleration(accel);
                 }
@@ -135,6 +162,17 @@ export class Player extends Entity {
         }
 
         vec3.copy(this.position, new_pos);
+        this.updateTilt(world, delta_time_s);
+    }
+
+    //Leans the player part of the way towards the ground normal, upright while in the air
+    private updateTilt(world: World, delta_time_s: number): void {
+        if (this.jumping) vec3.set(ground_normal, 0, 1, 0);
+        else world.getNormalAtPosition(ground_normal, this.position[0], this.position[2], this.model.radius);
+
+        vec3.lerp(ground_normal, UP, ground_normal, TILT_AMOUNT);
+        vec3.lerp(this.tilt, this.tilt, ground_normal, Math.min(TILT_SPEED * delta_time_s, 1));
+        vec3.normalize(this.tilt, this.tilt);
     }
 
     public hitByBat(bat_velocity: vec3): void {
@@ -151,10 +189,12 @@ export class Player extends Entity {
     }
 
     public reset(world: World): void {
-        vec3.copy(this.position, world.disks[0].position);
+        world.getSpawnPosition(this.position);
         this.position[1] = world.getHeightAtPointPosition(this.position[0], this.position[2]) + this.model.half_height;
         vec3.set(this.velocity, 0, 0, 0);
         this.jumping = false;
+        this.jump_factor = 1.0;
+        vec3.set(this.tilt, 0, 1, 0);
     }
 
     public addAcceleration(a: vec3): void {
@@ -163,8 +203,8 @@ export class Player extends Entity {
 
     public jump(): void {
         if (this.jumping) return;
-        vec3.set(this.velocity, 0, JUMP_UP_SPEED, 0);
-        vec3.scaleAndAdd(this.velocity, this.velocity, this.forward, JUMP_FORWARD_SPEED);
+        vec3.set(this.velocity, 0, JUMP_UP_SPEED * this.jump_factor, 0);
+        vec3.scaleAndAdd(this.velocity, this.velocity, this.forward, JUMP_FORWARD_SPEED * this.jump_factor);
         this.model.setState(Player_State.Jumping);
         this.jumping = true;
     }
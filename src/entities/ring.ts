@@ -1,108 +1,139 @@
 import {Entity, Model_Type} from "./entity";
-import {World} from "./world";
+import {createTerrainSample, World} from "./world";
 import {vec3} from "gl-matrix";
 import {BasicModel} from "./models/basicmodel";
 import {Collision} from "../helpers/collision";
-import {MovementGraph} from "../movementgraph";
+import {Link_Type, MovementGraph} from "../movementgraph";
 import {Random} from "../helpers/random";
+import {Terrain_Effect} from "../terrain";
+import {PathSmoothing, PathWaypoint} from "../pathsmoothing";
+import {Disk} from "./disk";
 
 let direction: vec3 = vec3.create();
-let center: vec3 = vec3.create();
-let center_to_ring: vec3 = vec3.create();
-let dir_pos_to_target: vec3 = vec3.create();
-let tangent_center_to_ring: vec3 = vec3.create();
+let conveyor_velocity: vec3 = vec3.create();
+let after_next: vec3 = vec3.create();
+let ground = createTerrainSample();
 
 export class Ring extends Entity {
     private readonly index: number;
     private readonly world: World;
     private readonly world_graph: MovementGraph;
+    private readonly random: Random;
 
     static readonly point_value: number = 1;
     static readonly speed: number = 2.5;
     static readonly rotation_speed: number = 1.3;
+    //Height bounced to on bouncy terrain per unit of bounce strength
+    static readonly bounce_scale: number = 0.1;
+    //Extra height to float over lava so it doesn't get burnt
+    static readonly lava_hover: number = 1.0;
+    //How high over the line between the rims a ring hops across a gap on a jump link
+    static readonly jump_height: number = 2.0;
     public readonly radius: number = 0.7;
     public readonly half_height: number = 0.1;
 
     public picked_up: boolean = false;
     public target_position: vec3;
 
-    public path: Array<number>;
+    //The nodes the last search found and the waypoints left to follow after smoothing them
+    public raw_path: Array<number>;
+    public path: Array<PathWaypoint>;
+    //Points on the spline to the target still to pass, empty when going straight to it
+    public curve: Array<vec3>;
     public curr_node_id: number;
+    //The node the ring is going to, NO_NODE while it follows an arc between nodes or has nowhere to go
     public target_node_id: number;
+    //Where the ring was before the waypoint it left last, the spline leaves waypoints in line with it
+    private last_position: vec3;
+    private bounce_time: number = 0;
+    //Where the jump the ring is on started and how far it goes on the ground, null while it isn't jumping
+    private jump_start: vec3 = null;
+    private jump_length: number = 0;
 
-    constructor(index: number, world: World, world_graph: MovementGraph, model: BasicModel) {
+    constructor(index: number, world: World, world_graph: MovementGraph, model: BasicModel, random: Random) {
         super(model.mesh.name, Model_Type.BASIC);
         this.index = index;
         this.world = world;
         this.world_graph = world_graph;
-        this.curr_node_id = Random.randi(this.world_graph.getNodeList().length - 1);
+        this.random = random;
+        this.curr_node_id = this.randomNode();
         this.target_node_id = this.curr_node_id;
         this.target_position = vec3.clone(this.world_graph.getNodeList()[this.target_node_id].pos);
         this.position = vec3.clone(this.target_position);
+        this.raw_path = [];
         this.path = [];
+        this.curve = [];
+        this.last_position = vec3.clone(this.position);
         this.radius = model.radius;
         this.half_height = model.half_height;
     }
 
     public update(delta_time_ms: number) {
+        let node_list = this.world_graph.getNodeList();
+        //Nodes on moving disks move with them
+        if (this.curve.length > 0) vec3.copy(this.target_position, this.curve[0]);
+        else if (this.target_node_id !== PathSmoothing.NO_NODE)
+            vec3.copy(this.target_position, node_list[this.target_node_id].pos);
+
         vec3.sub(direction, this.target_position, this.position);
+        direction[1] = 0;
         vec3.normalize(direction, direction);
 
-        let speed_factor = this.world.getSpeedFactorAtPosition(this.position[0], this.position[2]) / 1000;
+        let speed_factor = this.world.sampleTerrain(ground, this.position[0], this.position[2]).speed_factor / 1000;
         let distance = Ring.speed * delta_time_ms * speed_factor;
 
-        let node_list = this.world_graph.getNodeList();
-
-        if (node_list[this.curr_node_id].disk_id === node_list[this.target_node_id].disk_id) {
-            //Same disk -- Arc rotate around disk
-
-            //let old_dist = vec3.distance(this.position, this.target_position);
-            //let old_pos = vec3.clone(this.position);
-
-            //center of disk
-            vec3.copy(center, this.world.disks[node_list[this.curr_node_id].disk_id].position);
-
-            //vector from center of disk to ring position
-            vec3.sub(center_to_ring, this.position, center);
-
-            //direction vector from ring position to ring target position
-            vec3.sub(dir_pos_to_target, this.target_position, this.position);
-
-            //Tangent vector of vector from center of disk to ring position
-            //Required to determine which direction is shortest around disk
-            tangent_center_to_ring = vec3.rotateY(tangent_center_to_ring, center_to_ring, [0, 0, 0], Math.PI / 2);
-            let tangent_angle = vec3.angle(tangent_center_to_ring, dir_pos_to_target);
-
-            //The radius to rotate around the disk is radius - 0.7
-            let radius = this.world.disks[node_list[this.curr_node_id].disk_id].radius - 0.7;
-
-            //The angle to rotate using arc length formula
-            let angle = distance / radius;
-
-            //Rotate around the disk in the shorter direction
-            if (tangent_angle < Math.PI / 2) vec3.rotateY(center_to_ring, center_to_ring, [0, 0, 0], angle);
-            else vec3.rotateY(center_to_ring, center_to_ring, [0, 0, 0], -angle);
-
-            //vec3.add(this.position, center, center_to_ring);
+        let disk = this.world.getDiskAtPosition(this.position[0], this.position[2]);
+        let effect = disk ? disk.getEffect() : Terrain_Effect.NONE;
 
-            //To Make sure we don't drift off the radius
-            vec3.scaleAndAdd(this.position, center, vec3.normalize(center_to_ring, center_to_ring), radius);
-        } else {
-            //Move directly to another disk
+        //Conveyors speed the ring up or slow it down depending on which way it is going
+        if (effect === Terrain_Effect.CONVEYOR) {
+            disk.getConveyorVelocity(conveyor_velocity, this.position[0], this.position[2]);
+            let carried = vec3.dot(conveyor_velocity, direction) * delta_time_ms / 1000;
+            distance = Math.max(distance + carried, distance * 0.25);
+        }
 
-            vec3.scaleAndAdd(this.position, this.position, direction, distance);
+        //Go along the spline, passing as many of its points as the distance reaches so the speed stays even
+        let remaining = distance;
+        while (this.curve.length > 0) {
+            let to_point = Math.hypot(this.curve[0][0] - this.position[0], this.curve[0][2] - this.position[2]);
+            if (to_point > remaining) break;
+            remaining -= to_point;
+            this.position[0] = this.curve[0][0];
+            this.position[2] = this.curve[0][2];
+            this.curve.shift();
+            if (this.curve.length > 0) vec3.copy(this.target_position, this.curve[0]);
+            else if (this.target_node_id !== PathSmoothing.NO_NODE)
+                vec3.copy(this.target_position, node_list[this.target_node_id].pos);
         }
+        vec3.sub(direction, this.target_position, this.position);
+        direction[1] = 0;
+        let to_target = vec3.length(direction);
+        if (to_target > 0)
+            vec3.scaleAndAdd(this.position, this.position, direction, Math.min(remaining, to_target) / to_target);
 
         //Rotate the ring's forward based on how much we moved
         let rot = Ring.rotation_speed * distance;
         vec3.rotateY(this.forward, this.forward, [0, 0, 0], rot);
 
-        //Set the rings height based on the world height at that position
-        this.position[1] =
-            this.world.getHeightAtCirclePosition(this.position[0], this.position[2], this.radius) + this.half_height;
+        if (this.jump_start !== null) {
+            //Hop over the gap from the height it left at to the height where it lands
+            let to_land = Math.hypot(
+                this.target_position[0] - this.position[0],
+                this.target_position[2] - this.position[2]
+            );
+            let t = 1 - Math.min(to_land / this.jump_length, 1);
+            this.world.sampleTerrain(ground, this.target_position[0], this.target_position[2], this.radius);
+            let land_height = ground.height + this.half_height;
+            this.position[1] =
+                this.jump_start[1] + (land_height - this.jump_start[1]) * t + 4 * Ring.jump_height * t * (1 - t);
+            vec3.set(this.tilt, 0, 1, 0);
+        } else {
+            this.updateHeight(disk, effect, delta_time_ms);
+        }
 
-        //If on center of disk get new target
+        //Reached the waypoint so get the next one
         if (
+            this.curve.length === 0 &&
             Collision.pointCircleIntersection(
                 this.target_position[0],
                 this.target_position[2],
@@ -111,30 +142,175 @@ export class Ring extends Entity {
                 0.2
             )
         ) {
-            this.curr_node_id = this.target_node_id;
+            if (this.target_node_id !== PathSmoothing.NO_NODE) this.curr_node_id = this.target_node_id;
+            this.jump_start = null;
+
+            //A moving disk the path went to isn't touching any more so find a new path
+            if (
+                this.path.length > 0 &&
+                this.path[0].node_id !== PathSmoothing.NO_NODE &&
+                !this.world_graph.isLinkEnabled(this.path[0].from_node_id, this.path[0].node_id)
+            )
+                this.path = [];
 
+            let rand = PathSmoothing.NO_NODE;
             if (this.path.length == 0) {
-                //Get a random node that is not this same node
-                let rand = Random.randi(node_list.length - 1);
-                while (rand == this.curr_node_id) {
-                    rand = Random.randi(node_list.length - 1);
+                //The node the ring was at was removed while it had nowhere to go, start from the nearest one
+                if (node_list[this.curr_node_id].removed) {
+                    let nearest = this.world_graph.getNearestNode(this.position[0], this.position[2]);
+                    if (nearest !== -1) this.curr_node_id = nearest;
                 }
+
+                //Get a random node that is not this same node, without another node the ring stays where it is
+                rand = this.randomNode(this.curr_node_id);
+                if (rand === PathSmoothing.NO_NODE) this.stayHere();
+            }
+
+            if (this.path.length == 0) {
                 //Remember Ring Zeros search data for display later
                 if (this.index === 0) {
                     //Perform all the searches so we can record the visits required
 
-                    //this.path = this.world_graph.dijkstraSearch(this.curr_node_id, rand);
-                    //this.path = this.world_graph.aStarSearch(this.curr_node_id, rand);
-                    this.path = this.world_graph.mmSearch(this.curr_node_id, rand);
+                    //this.raw_path = this.world_graph.dijkstraSearch(this.curr_node_id, rand);
+                    //this.raw_path = this.world_graph.aStarSearch(this.curr_node_id, rand);
+                    this.raw_path = this.world_graph.mmSearch(this.curr_node_id, rand);
                     this.world_graph.memorizeLastSearch();
                 } else {
                     //Get the path between these two nodes
-                    this.path = this.world_graph.mmSearch(this.curr_node_id, rand);
+                    this.raw_path = this.world_graph.mmSearch(this.curr_node_id, rand);
+                }
+                this.path = PathSmoothing.simplify(this.world, node_list, this.curr_node_id, this.raw_path);
+
+                //The node is on another level that can't be reached, stay here and pick another one next time
+                if (this.path.length == 0) {
+                    this.path.push({
+                        node_id: this.curr_node_id,
+                        from_node_id: this.curr_node_id,
+                        position: node_list[this.curr_node_id].pos
+                    });
                 }
             }
-            //Pop the node off the front and set it as the target
-            this.target_node_id = this.path.shift();
-            vec3.copy(this.target_position, node_list[this.target_node_id].pos);
+            //Pop the waypoint off the front and set it as the target
+            let next = this.path.shift();
+            this.target_node_id = next.node_id;
+            vec3.copy(this.target_position, next.position);
+
+            //Jump links cross gaps with no ground to follow so the ring hops straight over them
+            if (
+                next.node_id !== PathSmoothing.NO_NODE &&
+                this.world_graph.getLinkType(next.from_node_id, next.node_id) === Link_Type.JUMP
+            ) {
+                this.jump_start = vec3.clone(this.position);
+                this.jump_length = Math.hypot(
+                    next.position[0] - this.position[0],
+                    next.position[2] - this.position[2]
+                );
+            }
+
+            //Splines are only made over still ground, the ring goes straight for nodes on moving disks
+            if (
+                this.jump_start !== null ||
+                this.isOnMovingDisk(this.curr_node_id) ||
+                this.isOnMovingDisk(next.node_id)
+            )
+                this.curve.length = 0;
+            else {
+                vec3.copy(after_next, this.path.length > 0 ? this.path[0].position : next.position);
+                PathSmoothing.spline(
+                    this.curve,
+                    this.world,
+                    this.last_position,
+                    this.position,
+                    next.position,
+                    after_next
+                );
+            }
+            vec3.copy(this.last_position, this.position);
+        }
+    }
+
+    //Finds a new path if nodes it was going through were removed or moved when the graph was changed
+    public onGraphChanged(invalidated: ReadonlySet<number>): void {
+        if (
+            !invalidated.has(this.curr_node_id) &&
+            !invalidated.has(this.target_node_id) &&
+            !this.path.some(waypoint => invalidated.has(waypoint.node_id))
+        )
+            return;
+
+        this.raw_path = [];
+        this.path = [];
+        this.curve.length = 0;
+        this.jump_start = null;
+
+        //Go straight to the nearest node that is left and find a new path from there
+        let nearest = this.world_graph.getNearestNode(this.position[0], this.position[2]);
+        if (nearest === -1) {
+            this.target_node_id = PathSmoothing.NO_NODE;
+            vec3.copy(this.target_position, this.position);
+            return;
+        }
+        this.curr_node_id = this.target_node_id = nearest;
+        vec3.copy(this.target_position, this.world_graph.getNodeList()[nearest].pos);
+    }
+
+    //Sets the ring's height and tilt from the ground under it
+    private updateHeight(disk: Disk, effect: Terrain_Effect, delta_time_ms: number): void {
+        this.world.sampleTerrain(ground, this.position[0], this.position[2], this.radius);
+        this.position[1] = ground.height + this.half_height;
+
+        if (effect === Terrain_Effect.LAVA) {
+            this.position[1] += Ring.lava_hover;
+        } else if (effect === Terrain_Effect.BOUNCY) {
+            this.bounce_time += delta_time_ms / 1000;
+            let bounce = Math.abs(Math.sin(this.bounce_time * Math.PI));
+            this.position[1] += bounce * disk.getEffectStrength() * Ring.bounce_scale;
+        } else {
+            this.bounce_time = 0;
+        }
+
+        //Lie flat on the ground under the ring
+        vec3.copy(this.tilt, ground.normal);
+    }
+
+    //Sets out to the points the ring will go through to the end of its path
+    public getSmoothedPath(out: vec3[]): vec3[] {
+        out.length = 0;
+        out.push(this.position, ...this.curve, this.target_position);
+        let before = this.last_position;
+        let from = this.target_position;
+        for (let i = 0; i < this.path.length; i++) {
+            let to = this.path[i].position;
+            let after = i + 1 < this.path.length ? this.path[i + 1].position : to;
+            out.push(...PathSmoothing.spline([], this.world, before, from, to, after), to);
+            before = from;
+            from = to;
         }
+        return out;
+    }
+
+    //Returns a random node that wasn't removed from the graph and isn't except_node_id, or NO_NODE if there is none
+    private randomNode(except_node_id: number = PathSmoothing.NO_NODE): number {
+        let node_ids: number[] = [];
+        for (let node of this.world_graph.getNodeList()) {
+            if (!node.removed && node.node_id !== except_node_id) node_ids.push(node.node_id);
+        }
+        if (node_ids.length === 0) return PathSmoothing.NO_NODE;
+        return node_ids[this.random.randi(node_ids.length)];
+    }
+
+    //Makes the ring wait where it is until it looks for a path again
+    private stayHere(): void {
+        this.path.push({
+            node_id: PathSmoothing.NO_NODE,
+            from_node_id: PathSmoothing.NO_NODE,
+            position: vec3.clone(this.position)
+        });
+    }
+
+    private isOnMovingDisk(node_id: number): boolean {
+        if (node_id === PathSmoothing.NO_NODE) return false;
+        let node = this.world_graph.getNodeList()[node_id];
+        return !node.removed && this.world.disks[node.disk_id].motion !== null;
     }
 }
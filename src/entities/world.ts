@@ -1,157 +1,479 @@
-import {Disk, Terrain} from "./disk";
-import {MaterialLibrary, Mesh} from "../lib/OBJ/index.js";
+import {Disk, Disk_Flag, Terrain} from "./disk";
+import {Material, MaterialLibrary, Mesh} from "../lib/OBJ/index.js";
 import {vec3} from "gl-matrix";
 import {Collision} from "../helpers/collision";
 import {Random} from "../helpers/random";
 import {BasicModel} from "./models/basicmodel";
+import {SpatialGrid} from "../helpers/spatialgrid";
+import {
+    DiskDescription,
+    MapFile,
+    PositionDescription,
+    RodDescription,
+    WorldDescription,
+    WorldFile,
+    WorldMetadata
+} from "../worldfile";
+import {WorldJson} from "../worldjson";
+import {WorldSnapshot} from "../worldsnapshot";
+import {DiskMotions} from "../diskmotion";
+import {HeightMapImages} from "../heightmapimages";
+import {TerrainRegistry} from "../terrain";
 
 let OBJ = require("../lib/OBJ/index.js");
 
+let out_ids: number[] = [];
+let blend_disks: Disk[] = [];
+let blend_heights: number[] = [];
+let collision_disks: Disk[] = [];
+let blend_normal = vec3.create();
+let motion_bounds = vec3.create();
+let scratch_sample: TerrainSample = createTerrainSample();
+
+//The separate streams of random numbers made from the world seed
+export enum Random_Stream {
+    DISKS = 0,
+    PICKUPS = 1,
+    BATS = 2
+}
+
+//Terrain values under a position, blended from every disk there when World.blend_terrain is on
+export interface TerrainSample {
+    height: number;
+    friction: number;
+    slope_factor: number;
+    speed_factor: number;
+    accel_factor: number;
+    normal: vec3;
+    //The disk with the most weight or null if there is no disk
+    disk: Disk | null;
+}
+
+export function createTerrainSample(): TerrainSample {
+    return {
+        height: 0,
+        friction: 0,
+        slope_factor: 0,
+        speed_factor: 0,
+        accel_factor: 0,
+        normal: vec3.fromValues(0, 1, 0),
+        disk: null
+    };
+}
+
+//Disk meshes by the model name of the terrains that use them
 export interface WorldMeshes {
-    DiskA: Mesh;
-    DiskB: Mesh;
-    DiskC: Mesh;
-    DiskD: Mesh;
-    DiskE: Mesh;
+    [name: string]: Mesh;
 }
 
 export class World {
     static world_meshes: WorldMeshes;
     static world_mat_lib: MaterialLibrary;
     static loaded: boolean;
+    //Blend the terrain of overlapping disks instead of using the first disk in the list
+    //Off by default so existing maps play as they did, J turns it on
+    static blend_terrain: boolean = false;
+    //Highest a walking player can step up, surfaces closer than this are on the same level
+    static readonly step_height: number = 1.0;
 
-    public readonly diskA_model: BasicModel;
-    public readonly diskB_model: BasicModel;
-    public readonly diskC_model: BasicModel;
-    public readonly diskD_model: BasicModel;
-    public readonly diskE_model: BasicModel;
+    public readonly disk_models: Map<string, BasicModel> = new Map<string, BasicModel>();
 
+    public name: string;
+    public metadata: WorldMetadata;
+    public seed: number;
     private world_radius: number;
+    private spawn_disk_id: number = 0;
+    private player_spawn: { x: number; z: number } | null;
 
-    public disks: Array<Disk> = [];
+    //Pickups and bats placed by the world file, null if they should be placed one per disk
+    public rod_spawns: RodDescription[] | null;
+    public ring_count: number | null;
+    public bat_spawns: PositionDescription[] | null;
 
-    public constructor(gl: WebGL2RenderingContext, worldData: string) {
-        if (!World.loaded) throw "World loadAssets must be called before constructor.";
+    public disks: Array<Disk> = [];
+    private disk_grid: SpatialGrid;
+    //Seconds the moving disks have been moving for
+    private motion_time: number = 0;
+
+    //Without gl the world is headless, its disks have heightmaps but no models so it can be used without WebGL
+    //Heightmap images have to be loaded with HeightMapImages.load first then
+    public constructor(gl: WebGL2RenderingContext | null, map: MapFile, seed: number | null = null) {
+        if (gl !== null) {
+            if (!World.loaded) throw "World loadAssets must be called before constructor.";
+
+            for (let name of Object.keys(World.world_meshes)) {
+                World.world_meshes[name].addMaterialLibrary(World.world_mat_lib);
+                let model = new BasicModel(World.world_meshes[name]);
+                model.init(gl);
+                this.disk_models.set(name, model);
+            }
+            //Heightmap materials that no disk mesh uses get their textures from the terrain's model
+            for (let terrain of TerrainRegistry.getAll())
+                this.getModelForTerrain(terrain.id).initMaterialTextures(gl, this.getMaterialForTerrain(terrain.id));
+        }
 
-        World.world_meshes.DiskA.addMaterialLibrary(World.world_mat_lib);
-        World.world_meshes.DiskB.addMaterialLibrary(World.world_mat_lib);
-        World.world_meshes.DiskC.addMaterialLibrary(World.world_mat_lib);
-        World.world_meshes.DiskD.addMaterialLibrary(World.world_mat_lib);
-        World.world_meshes.DiskE.addMaterialLibrary(World.world_mat_lib);
+        this.init(gl, map, seed);
+    }
 
-        this.diskA_model = new BasicModel(World.world_meshes.DiskA);
-        this.diskB_model = new BasicModel(World.world_meshes.DiskB);
-        this.diskC_model = new BasicModel(World.world_meshes.DiskC);
-        this.diskD_model = new BasicModel(World.world_meshes.DiskD);
-        this.diskE_model = new BasicModel(World.world_meshes.DiskE);
+    //The seed replaces the world seed of the map file if it is given
+    public init(gl: WebGL2RenderingContext | null, map: MapFile, seed: number | null = null): void {
+        let description = World.parseMap(map);
+        if (seed !== null) description.seed = seed;
+        this.load(gl, description);
+    }
 
-        this.diskA_model.init(gl);
-        this.diskB_model.init(gl);
-        this.diskC_model.init(gl);
-        this.diskD_model.init(gl);
-        this.diskE_model.init(gl);
+    //Parses a JSON world if the map file is JSON otherwise a tab separated disk world
+    public static parseMap(map: MapFile): WorldDescription {
+        if (/\.json$/i.test(map.name) || map.data.trim().charAt(0) === "{") return WorldJson.parse(map.data, map.name);
+        return WorldFile.parse(map.data, map.name);
+    }
 
-        this.init(gl, worldData);
+    //Downloads the heightmap images the maps use so their disks can be created
+    //Maps that don't parse are skipped, they fail when they are loaded instead
+    public static async loadHeightImages(maps: MapFile[]): Promise<void> {
+        let files: string[] = [];
+        for (let map of maps) {
+            let description: WorldDescription;
+            try {
+                description = World.parseMap(map);
+            } catch (e) {
+                continue;
+            }
+            for (let disk of description.disks) if (disk.height_image) files.push(disk.height_image.file);
+        }
+        await HeightMapImages.download(files);
     }
 
-    public init(gl: WebGL2RenderingContext, world_data: string): void {
+    //Creates the disks of a parsed world description
+    //Heightmaps given for each disk are used instead of generating them
+    public load(
+        gl: WebGL2RenderingContext | null,
+        description: WorldDescription,
+        height_maps: number[][][] | null = null
+    ): void {
         let w = Date.now();
-        const lines = world_data.split("\n");
-
-        if (lines[0].indexOf("version 1") == -1) console.warn("Can't read Disk World File");
-
-        this.world_radius = parseInt(lines[1]);
-        let count = parseInt(lines[2]);
-        lines.splice(0, 3);
-        for (let i = 0; i < count; i++) {
-            let elements = lines[i].split("\t");
-            let x = parseFloat(elements[0]);
-            let z = parseFloat(elements[1]);
-            let radius: number = parseFloat(elements[2]);
-            let model: BasicModel = null;
-            let terrain: Terrain = null;
-
-            switch (true) {
-                case radius < 8:
-                    model = this.diskA_model;
-                    terrain = Terrain.RED_ROCK;
-                    break;
-                case radius <= 12:
-                    model = this.diskB_model;
-                    terrain = Terrain.LEAFY;
-                    break;
-                case radius <= 20:
-                    model = this.diskC_model;
-                    terrain = Terrain.ICY;
-                    break;
-                case radius <= 30:
-                    model = this.diskD_model;
-                    terrain = Terrain.SANDY;
-                    break;
-                case radius > 30:
-                    model = this.diskE_model;
-                    terrain = Terrain.GREY_ROCK;
-                    break;
-            }
-            if (!model) throw "No Disk Model found for radius: " + radius;
-            let d = new Disk(model, terrain, radius, x, 0, z);
-            d.init(gl);
+
+        this.seed = description.seed !== null ? description.seed : Random.randomSeed();
+        console.log("world seed: " + this.seed);
+        let disk_random = this.createRandom(Random_Stream.DISKS);
+
+        this.name = description.name;
+        this.metadata = { ...description.metadata };
+        this.world_radius = description.world_radius;
+        this.spawn_disk_id = 0;
+        this.player_spawn = description.player_spawn ? { ...description.player_spawn } : null;
+        this.rod_spawns = description.rods ? description.rods.map(rod => ({ ...rod })) : null;
+        this.ring_count = description.ring_count;
+        this.bat_spawns = description.bats ? description.bats.map(bat => ({ ...bat })) : null;
+        this.motion_time = 0;
+
+        for (let [i, disk_description] of description.disks.entries()) {
+            //Always take a seed so disks without a seed get the same seed if other disks have one
+            let seed = disk_random.nextSeed();
+            if (disk_description.seed !== null) seed = disk_description.seed;
+            let d = this.createDisk(gl, disk_description, seed, height_maps ? height_maps[i] : null);
+            if (d.flags & Disk_Flag.PLAYER_SPAWN) this.spawn_disk_id = this.disks.length;
             this.disks.push(d);
         }
+        this.rebuildSpatialIndex();
         console.log("world gen time: " + (Date.now() - w) / 1000 + "s");
     }
 
+    //Creates and initializes a disk without adding it to the world, a headless one without gl
+    public createDisk(
+        gl: WebGL2RenderingContext | null,
+        description: DiskDescription,
+        seed = description.seed,
+        cached_height_map: number[][] | null = null
+    ): Disk {
+        let d = new Disk(
+            gl !== null ? this.getModelForTerrain(description.terrain) : null,
+            gl !== null ? this.getMaterialForTerrain(description.terrain) : null,
+            description.terrain,
+            description.radius,
+            description.x,
+            description.y,
+            description.z,
+            seed,
+            description.height_map
+        );
+        d.flags = description.flags;
+        d.height_image = description.height_image ? { ...description.height_image } : null;
+        d.motion = description.motion ? DiskMotions.clone(description.motion) : null;
+        if (cached_height_map && !description.height_map) d.useCachedHeightMap(cached_height_map);
+        if (gl !== null) d.init(gl);
+        else d.initHeightMap();
+        return d;
+    }
+
+    //Remakes every heightmap model from its current heightmap, for after Disk.gpu_displacement changed
+    public rebuildHeightMapModels(gl: WebGL2RenderingContext): void {
+        for (let disk of this.disks) disk.rebuildHeightMapModel(gl);
+    }
+
+    //Adds a new disk at the index in the disk list
+    public insertDisk(gl: WebGL2RenderingContext, index: number, description: DiskDescription): Disk {
+        let d = this.createDisk(gl, description);
+        this.disks.splice(index, 0, d);
+        this.disksChanged();
+        return d;
+    }
+
+    public removeDisk(gl: WebGL2RenderingContext, index: number): void {
+        let d = this.disks[index];
+        if (d === undefined) throw "No disk with index: " + index;
+        d.heightMapModel.destroy(gl);
+        this.disks.splice(index, 1);
+        this.disksChanged();
+    }
+
+    //Replaces a disk with a new disk made from the description
+    public replaceDisk(gl: WebGL2RenderingContext, index: number, description: DiskDescription): Disk {
+        let old = this.disks[index];
+        if (old === undefined) throw "No disk with index: " + index;
+        let d = this.createDisk(gl, description);
+        old.heightMapModel.destroy(gl);
+        this.disks[index] = d;
+        this.disksChanged();
+        return d;
+    }
+
+    //Returns true if any disk has a motion
+    public hasMovingDisks(): boolean {
+        return this.disks.some(disk => disk.motion !== null);
+    }
+
+    //Moves the disks with a motion on by delta_ms
+    //Disk.carry then moves what was standing on a disk by as much as it moved
+    public updateMotion(delta_ms: number): void {
+        this.motion_time += delta_ms / 1000;
+        for (let disk of this.disks) disk.updateMotion(this.motion_time);
+    }
+
+    //Updates the spawn disk and spatial index after the disk list was edited
+    public disksChanged(): void {
+        this.spawn_disk_id = 0;
+        for (let i = 0; i < this.disks.length; i++) {
+            if (this.disks[i].flags & Disk_Flag.PLAYER_SPAWN) this.spawn_disk_id = i;
+        }
+        this.rebuildSpatialIndex();
+    }
+
+    public getModelForTerrain(terrain: Terrain): BasicModel {
+        let model = this.disk_models.get(TerrainRegistry.get(terrain).model);
+        if (model === undefined) throw "No Disk Model found for terrain: " + terrain;
+        return model;
+    }
+
+    public getMaterialForTerrain(terrain: Terrain): Material {
+        let material = World.world_mat_lib.materials[TerrainRegistry.get(terrain).material];
+        if (material === undefined) throw "No Disk Material found for terrain: " + terrain;
+        return material;
+    }
+
+    //Returns a generator for one of the world's random streams
+    //The same world seed always gives the same numbers for a stream
+    public createRandom(stream: Random_Stream): Random {
+        return new Random(Random.deriveSeed(this.seed, stream));
+    }
+
+    //Returns the disk the player should start on
+    public getSpawnDisk(): Disk {
+        return this.disks[this.spawn_disk_id];
+    }
+
+    //Sets the x and z of the position the player should start on
+    public getSpawnPosition(out: vec3): vec3 {
+        if (this.player_spawn) vec3.set(out, this.player_spawn.x, 0, this.player_spawn.z);
+        else vec3.copy(out, this.getSpawnDisk().position);
+        return out;
+    }
+
+    //Returns the description of the currently loaded world so it can be saved
+    public getDescription(): WorldDescription {
+        return {
+            name: this.name,
+            metadata: { ...this.metadata },
+            seed: this.seed,
+            world_radius: this.world_radius,
+            disks: this.disks.map(disk => World.describeDisk(disk)),
+            player_spawn: this.player_spawn ? { ...this.player_spawn } : null,
+            rods: this.rod_spawns ? this.rod_spawns.map(rod => ({ ...rod })) : null,
+            ring_count: this.ring_count,
+            bats: this.bat_spawns ? this.bat_spawns.map(bat => ({ ...bat })) : null
+        };
+    }
+
+    //Moving disks are described where they start
+    public static describeDisk(disk: Disk): DiskDescription {
+        return {
+            x: disk.origin[0],
+            y: disk.origin[1],
+            z: disk.origin[2],
+            radius: disk.radius,
+            terrain: disk.type,
+            seed: disk.seed,
+            flags: disk.flags,
+            height_map: disk.sculpted ? disk.heightMap.map(row => row.slice()) : null,
+            height_image: disk.height_image ? { ...disk.height_image } : null,
+            motion: disk.motion ? DiskMotions.clone(disk.motion) : null
+        };
+    }
+
+    //Returns the currently loaded world as JSON
+    public serialize(): string {
+        return WorldJson.stringify(this.getDescription());
+    }
+
+    //Returns the currently loaded world with every heightmap as it was generated
+    public saveSnapshot(): Uint8Array {
+        return WorldSnapshot.encode(this.getDescription(), this.disks.map(disk => disk.heightMap));
+    }
+
+    //Replaces the world with a snapshot without generating any heightmaps
+    public loadSnapshot(gl: WebGL2RenderingContext, data: Uint8Array, file_name: string = "unnamed"): void {
+        let snapshot = WorldSnapshot.decode(data, file_name);
+        this.destroy();
+        this.load(gl, snapshot.world, snapshot.height_maps);
+    }
+
     public destroy(): void {
         this.disks = [];
+        this.rebuildSpatialIndex();
     }
 
-    public getSpeedFactorAtPosition(x: number, z: number, radius: number = 0): number {
+    //Rebuilds the spatial index of the disks
+    //Must be called after disks are added, removed, moved or resized, but not after they move along their motions
+    //Moving disks are indexed by the circle they stay inside while they move so the index never goes out of date
+    public rebuildSpatialIndex(): void {
+        let radius_sum = 0;
+        for (let disk of this.disks) radius_sum += disk.radius;
+        let average_radius = this.disks.length ? radius_sum / this.disks.length : 1;
+
+        this.disk_grid = new SpatialGrid(average_radius * 2);
         for (let i = 0; i < this.disks.length; i++) {
-            if (
-                Collision.circleIntersection(
-                    x,
-                    z,
-                    radius,
-                    this.disks[i].position[0],
-                    this.disks[i].position[2],
-                    this.disks[i].radius
-                )
-            )
-                return this.disks[i].getSpeedFactor();
+            let disk = this.disks[i];
+            if (disk.motion === null) {
+                this.disk_grid.insert(i, disk.position[0], disk.position[2], disk.radius);
+                continue;
+            }
+            let reach = DiskMotions.bounds(motion_bounds, disk.motion, disk.origin);
+            this.disk_grid.insert(i, motion_bounds[0], motion_bounds[2], disk.radius + reach);
         }
+    }
 
-        //No collision with a disk
-        return 1.0;
+    //Returns all disks that intersect the circle in the order of the disk list
+    public getDisksInCircle(x: number, z: number, r: number, out: Disk[] = []): Disk[] {
+        out.length = 0;
+        this.disk_grid.query(x, z, r, out_ids);
+        for (let id of out_ids) {
+            let disk = this.disks[id];
+            if (Collision.circleIntersection(x, z, r, disk.position[0], disk.position[2], disk.radius)) out.push(disk);
+        }
+        return out;
     }
 
-    public getAccelFactorAtPosition(x: number, z: number, radius: number = 0): number {
-        for (let i = 0; i < this.disks.length; i++) {
-            if (
-                Collision.circleIntersection(
-                    x,
-                    z,
-                    radius,
-                    this.disks[i].position[0],
-                    this.disks[i].position[2],
-                    this.disks[i].radius
-                )
-            )
-                return this.disks[i].getAccelFactor();
+    //Returns the first disk in the disk list that intersects the circle or null if there is none
+    private getFirstDiskInCircle(x: number, z: number, r: number): Disk | null {
+        this.disk_grid.query(x, z, r, out_ids);
+        for (let id of out_ids) {
+            let disk = this.disks[id];
+            if (Collision.circleIntersection(x, z, r, disk.position[0], disk.position[2], disk.radius)) return disk;
+        }
+        return null;
+    }
+
+    //Returns the disk at the position or null if there is none
+    //Only disks with a surface at or below y are used, the highest of them is returned
+    public getDiskAtPosition(x: number, z: number, radius: number = 0, y: number = Infinity): Disk | null {
+        return this.sampleTerrain(scratch_sample, x, z, radius, y).disk;
+    }
+
+    //Sets out to the terrain under the circle on the highest level with a surface at or below y
+    //Each disk is weighted by how far inside its rim the circle reaches so values change smoothly across seams
+    public sampleTerrain(out: TerrainSample, x: number, z: number, r: number = 0, y: number = Infinity): TerrainSample {
+        this.getDisksInCircle(x, z, r, blend_disks);
+
+        //Disks above y are walls or ceilings, not ground
+        let top = -Infinity;
+        let count = 0;
+        for (let disk of blend_disks) {
+            let height = disk.getHeightAtPosition(x, z);
+            if (height > y) continue;
+            blend_disks[count] = disk;
+            blend_heights[count++] = height;
+            top = Math.max(top, height);
+        }
+        blend_disks.length = count;
+
+        //Only disks on the top level are blended, without blending it is the first of them in the disk list
+        count = 0;
+        for (let i = 0; i < blend_disks.length; i++) {
+            if (blend_heights[i] < top - World.step_height) continue;
+            if (!World.blend_terrain && count > 0) break;
+            blend_disks[count] = blend_disks[i];
+            blend_heights[count++] = blend_heights[i];
+        }
+        blend_disks.length = count;
+
+        out.disk = null;
+        if (blend_disks.length === 0) {
+            //No collision with a disk
+            out.height = 0.0;
+            out.friction = 0.0001;
+            out.slope_factor = 0.0001;
+            out.speed_factor = 1.0;
+            out.accel_factor = 1.0;
+            vec3.set(out.normal, 0, 1, 0);
+            return out;
         }
 
-        //No collision with a disk
-        return 1.0;
+        out.height = out.friction = out.slope_factor = out.speed_factor = out.accel_factor = 0;
+        vec3.set(out.normal, 0, 0, 0);
+        let total = 0;
+        let heaviest = 0;
+        for (let [i, disk] of blend_disks.entries()) {
+            let rim_distance = disk.radius - Math.hypot(x - disk.position[0], z - disk.position[2]);
+            //Disks the circle only touches still get a little weight so the total is never 0
+            let weight = Math.max(rim_distance + r, 0) + 0.0001;
+            out.height += blend_heights[i] * weight;
+            out.friction += disk.getFriction() * weight;
+            out.slope_factor += disk.getSlopeFactor() * weight;
+            out.speed_factor += disk.getSpeedFactor() * weight;
+            out.accel_factor += disk.getAccelFactor() * weight;
+            vec3.scaleAndAdd(out.normal, out.normal, disk.getNormalAtPosition(blend_normal, x, z), weight);
+            total += weight;
+            if (weight > heaviest) {
+                heaviest = weight;
+                out.disk = disk;
+            }
+        }
+        out.height /= total;
+        out.friction /= total;
+        out.slope_factor /= total;
+        out.speed_factor /= total;
+        out.accel_factor /= total;
+        vec3.normalize(out.normal, out.normal);
+        return out;
+    }
+
+    public getSpeedFactorAtPosition(x: number, z: number, radius: number = 0): number {
+        return this.sampleTerrain(scratch_sample, x, z, radius).speed_factor;
+    }
+
+    public getAccelFactorAtPosition(x: number, z: number, radius: number = 0): number {
+        return this.sampleTerrain(scratch_sample, x, z, radius).accel_factor;
     }
 
-    public getRandomDiskPosition(): vec3 {
+    public getRandomDiskPosition(random: Random): vec3 {
         if (this.disks.length === 0) throw "There are no disks???";
-        let i = Random.randi(this.disks.length - 1);
+        let i = random.randi(this.disks.length - 1);
         return this.disks[i].position;
     }
 
-    public getRandomXZPosition(out: vec3): vec3 {
-        let r = Math.sqrt(Random.randf(0, 1)) * this.world_radius;
-        let t = Random.randf(0, Math.PI * 2);
+    public getRandomXZPosition(out: vec3, random: Random): vec3 {
+        let r = Math.sqrt(random.randf(0, 1)) * this.world_radius;
+        let t = random.randf(0, Math.PI * 2);
         out[0] = r * Math.cos(t);
         out[1] = 0;
         out[2] = r * Math.sin(t);
@@ -162,57 +484,33 @@ export class World {
         return this.getHeightAtCirclePosition(x, z, 0);
     }
 
-    public getHeightAtCirclePosition(x: number, z: number, r: number): number {
-        for (let i = 0; i < this.disks.length; i++) {
-            if (
-                Collision.circleIntersection(
-                    x,
-                    z,
-                    r,
-                    this.disks[i].position[0],
-                    this.disks[i].position[2],
-                    this.disks[i].radius
-                )
-            ) {
-                return this.disks[i].getHeightAtPosition(x, z);
-            }
-        }
-        //No collision with a disk
-        return 0.0;
+    //Returns the height of the highest level with a surface at or below y
+    public getHeightAtCirclePosition(x: number, z: number, r: number, y: number = Infinity): number {
+        return this.sampleTerrain(scratch_sample, x, z, r, y).height;
+    }
+
+    //Sets out to the surface normal under the circle, straight up if there is no disk
+    public getNormalAtPosition(out: vec3, x: number, z: number, r: number = 0): vec3 {
+        return vec3.copy(out, this.sampleTerrain(scratch_sample, x, z, r).normal);
     }
 
     public getSlopeFactorAtPosition(x: number, z: number): number {
-        for (let disk of this.disks) {
-            if (Collision.circleIntersection(x, z, 0, disk.position[0], disk.position[2], disk.radius))
-                return disk.getSlopeFactor();
-        }
-        return 0.0001;
+        return this.sampleTerrain(scratch_sample, x, z).slope_factor;
     }
 
     public getFrictionAtPosition(x: number, z: number): number {
-        for (let disk of this.disks) {
-            if (Collision.circleIntersection(x, z, 0, disk.position[0], disk.position[2], disk.radius))
-                return disk.getFriction();
-        }
-        return 0.0001;
+        return this.sampleTerrain(scratch_sample, x, z).friction;
     }
 
     public isOnDisk(x: number, z: number, r: number = 0): boolean {
-        for (let disk of this.disks) {
-            if (Collision.circleIntersection(x, z, r, disk.position[0], disk.position[2], disk.radius)) return true;
-        }
+        return this.getFirstDiskInCircle(x, z, r) !== null;
     }
 
+    //Disks reach down from their surface so the cylinder is inside any disk with a surface above its bottom
     public isCylinderCollisionWithDisk(pos: vec3, r: number, half_height: number): boolean {
-        for (let disk of this.disks) {
-            if (Collision.circleIntersection(pos[0], pos[2], r, disk.position[0], disk.position[2], disk.radius)) {
-                let height = this.getHeightAtPointPosition(pos[0], pos[2]);
-
-                //If position is below heightmap it is inside
-                if (pos[1] - half_height <= height) {
-                    return true;
-                }
-            }
+        let bottom = pos[1] - half_height;
+        for (let disk of this.getDisksInCircle(pos[0], pos[2], r, collision_disks)) {
+            if (bottom <= disk.getHeightAtPosition(pos[0], pos[2])) return true;
         }
         return false;
     }
@@ -224,34 +522,16 @@ export class World {
         return;
     }
 
+    //Downloads the mesh of every model used by a registered terrain
     private static async loadWorldMeshes(): Promise<WorldMeshes> {
-        return OBJ.downloadModels([
-            {
-                name: "DiskA",
-                obj: "/assets/models/environment/disks/DiskA.obj",
-                downloadMtlTextures: false
-            },
-            {
-                name: "DiskB",
-                obj: "/assets/models/environment/disks/DiskB.obj",
+        let names = new Set(TerrainRegistry.getAll().map(terrain => terrain.model));
+        return OBJ.downloadModels(
+            Array.from(names).map(name => ({
+                name: name,
+                obj: "/assets/models/environment/disks/" + name + ".obj",
                 downloadMtlTextures: false
-            },
-            {
-                name: "DiskC",
-                obj: "/assets/models/environment/disks/DiskC.obj",
-                downloadMtlTextures: false
-            },
-            {
-                name: "DiskD",
-                obj: "/assets/models/environment/disks/DiskD.obj",
-                downloadMtlTextures: false
-            },
-            {
-                name: "DiskE",
-                obj: "/assets/models/environment/disks/DiskE.obj",
-                downloadMtlTextures: false
-            }
-        ]);
+            }))
+        );
     }
 
     private static async loadWorldMat(): Promise<MaterialLibrary> {
@@ -1,5 +1,5 @@
 import {Player} from "entities/player";
-import {World} from "entities/world";
+import {Random_Stream, World} from "entities/world";
 import {global} from "globals";
 import {PickupManager} from "pickupmanager";
 import {Camera} from "camera";
@@ -7,11 +7,18 @@ import {glMatrix, mat4, vec3, vec4} from "gl-matrix";
 import {BasicModel} from "entities/models/basicmodel";
 import {Renderer} from "renderers/renderer";
 import {Player_State} from "entities/models/playermodel";
-import {MovementGraph} from "movementgraph";
+import {Link_Type, MovementGraph} from "movementgraph";
+import {PathCosts} from "pathcost";
 import {PointList} from "renderers/linerenderer";
 import {Bat} from "entities/bat";
+import {Entity} from "entities/entity";
+import {Disk} from "entities/disk";
 import {Collision} from "helpers/collision";
 import {Pointer} from "./helpers/pointer";
+import {MapFile} from "./worldfile";
+import {WorldGenerator} from "./worldgenerator";
+import {Random} from "./helpers/random";
+import {Disk_Change_Type, WorldEditor} from "./worldeditor";
 
 let OBJ = require("lib/OBJ/index.js");
 
@@ -23,6 +30,8 @@ let renderer: Renderer;
 
 const PLAYER_CAMERA_OFFSET = vec3.fromValues(0, 0.8, 0);
 const LIGHT_DIRECTION = vec4.fromValues(0.34, 0.83, 0.44, 0.0);
+//Lifts the movement graph lines a little off the ground
+const WORLD_GRAPH_OFFSET = vec3.fromValues(0, 0.2, 0);
 
 let model_matrix: mat4 = mat4.create();
 let projection_matrix: mat4 = mat4.create();
@@ -42,9 +51,12 @@ export class Game {
     private world: World;
     private world_graph: MovementGraph;
     private world_graph_point_list: PointList;
+    //The points of the point list on nodes of moving disks and the node each one is drawn at
+    private world_graph_moving_points: { index: number; node_id: number }[] = [];
     private player: Player;
     private bats: Bat[] = [];
     private pickup_manager: PickupManager;
+    private editor: WorldEditor;
 
     private player_camera: Camera = new Camera(vec3.fromValues(0, 1.6, 0), vec3.fromValues(0, 1, 0), 0);
     private overview_camera: Camera = new Camera(vec3.fromValues(100, 190, 10), vec3.fromValues(0, 1, 0), 0, 0);
@@ -53,9 +65,10 @@ export class Game {
 
     private current_map: number = 0;
     public show_path: boolean = true;
+    public editor_mode: boolean = false;
 
     //World Name, World Data
-    static maps: Array<string>;
+    static maps: Array<MapFile>;
 
     constructor(_gl: WebGL2RenderingContext) {
         //   if (!this.assets_loaded) throw "Game loadAssets must be called before constructor.";
@@ -76,7 +89,7 @@ export class Game {
 
         let w = Date.now();
         this.world = new World(gl, Game.maps[this.current_map++]);
-        this.world_graph = new MovementGraph(this.world.disks);
+        this.world_graph = new MovementGraph(this.world.disks, PathCosts.ring);
         this.initWorldGraphPointLine();
         console.log("world gen time: " + (Date.now() - w) / 1000 + "s");
 
@@ -84,6 +97,7 @@ export class Game {
         this.player.reset(this.world);
         this.initBats();
         this.overview_camera.lookAt(vec3.fromValues(0, 0, 0));
+        this.editor = new WorldEditor(gl, this.world, this.overview_camera);
 
         await this.initRenderer();
         await this.addAllGameEntitiesToRenderer();
@@ -91,29 +105,57 @@ export class Game {
 
     private initBats(): void {
         this.bats = [];
+        let random = this.world.createRandom(Random_Stream.BATS);
+        if (this.world.bat_spawns) {
+            for (let spawn of this.world.bat_spawns) {
+                let position = vec3.fromValues(spawn.x, spawn.y, spawn.z);
+                this.bats.push(new Bat(this.bat_model, this.player, this.world, random.fork(), position));
+            }
+            return;
+        }
         for (let disk of this.world.disks) {
-            this.bats.push(new Bat(this.bat_model, this.player, this.world));
+            this.bats.push(new Bat(this.bat_model, this.player, this.world, random.fork()));
         }
     }
 
     private initWorldGraphPointLine(): void {
-        let offset = vec3.fromValues(0, 0.2, 0);
         this.world_graph_point_list = new PointList();
         this.world_graph_point_list.allocate(this.world_graph.getNodeLinkCount() * 2 * 2);
+        this.world_graph_moving_points = [];
         let temp_pos = vec3.create();
+        let jump_color = vec4.fromValues(1.0, 0.0, 1.0, 1.0);
 
+        let pushNode = (node_id: number, color: vec4) => {
+            if (this.world_graph.isMovingNode(node_id)) {
+                let index = this.world_graph_point_list.size();
+                this.world_graph_moving_points.push({ index: index, node_id: node_id });
+            }
+            let pos = this.world_graph.getNodeList()[node_id].pos;
+            this.world_graph_point_list.pushRaw(vec3.add(temp_pos, pos, WORLD_GRAPH_OFFSET), color);
+        };
         for (let node of this.world_graph.getNodeList()) {
             for (let link of node.node_links) {
-                let color = vec4.fromValues(0.25 + link.weight / 50.0, 1.0 - link.weight / 150.0, 0.0, 1.0);
-                this.world_graph_point_list.pushRaw(vec3.add(temp_pos, node.pos, offset), color);
-                this.world_graph_point_list.pushRaw(
-                    vec3.add(temp_pos, this.world_graph.getNodeList()[link.dest_node_id].pos, offset),
-                    color
-                );
+                if (!link.enabled) continue;
+                let color =
+                    link.type === Link_Type.JUMP
+                        ? jump_color
+                        : vec4.fromValues(0.25 + link.weight / 50.0, 1.0 - link.weight / 150.0, 0.0, 1.0);
+                pushNode(node.node_id, color);
+                pushNode(link.dest_node_id, color);
             }
         }
     }
 
+    //Moves the points on moving nodes to where the nodes are now
+    private updateWorldGraphPointLine(): void {
+        let temp_pos = vec3.create();
+        let node_list = this.world_graph.getNodeList();
+        for (let point of this.world_graph_moving_points) {
+            vec3.add(temp_pos, node_list[point.node_id].pos, WORLD_GRAPH_OFFSET);
+            this.world_graph_point_list.setPosition(point.index, temp_pos);
+        }
+    }
+
     private displayMovementGraph(view_matrix: mat4, projection_matrix: mat4): void {
         if (this.active_camera.value === this.overview_camera) gl.disable(gl.DEPTH_TEST);
         let vp = mat4.multiply(mat4.create(), projection_matrix, view_matrix);
@@ -125,40 +167,40 @@ export class Game {
 
     public displayRingZeroPath(view_matrix: mat4, projection_matrix: mat4): void {
         let ring = this.pickup_manager.rings[0];
-        let path = ring.path;
+        if (!ring) return;
+        let path = ring.raw_path;
         let offset = vec3.fromValues(0, 1, 0);
         let white = vec4.fromValues(1,1,1,1);
+        let cyan = vec4.fromValues(0, 1, 1, 1);
         let position = vec3.create();
         let target = vec3.create();
         let node_list = this.world_graph.getNodeList();
+        let smoothed_path = ring.getSmoothedPath([]);
 
         global.line_renderer.prepare();
-        global.line_renderer.preAllocatePointLine(path.length * 2 + 6);
+        global.line_renderer.preAllocatePointLine(path.length * 2 + smoothed_path.length * 2 + 2);
         global.line_renderer.addLine(
             ring.position,
             vec3.add(position, ring.position, offset),
             white
         );
-        global.line_renderer.addLine(
-            vec3.add(position, ring.position, offset),
-            vec3.add(target, ring.target_position, offset),
-            white
-        );
 
-        if (path.length) {
+        //The nodes the search found
+        for (let i = 0; i < path.length - 1; i++) {
             global.line_renderer.addLine(
-                vec3.add(position, node_list[ring.target_node_id].pos, offset),
-                vec3.add(target, node_list[path[0]].pos, offset),
+                vec3.add(position, node_list[path[i]].pos, offset),
+                vec3.add(target, node_list[path[i + 1]].pos, offset),
                 white
             );
+        }
 
-            for (let i = 0; i < path.length - 1; i++) {
-                global.line_renderer.addLine(
-                    vec3.add(position, node_list[path[i]].pos, offset),
-                    vec3.add(target, node_list[path[i + 1]].pos, offset),
-                    white
-                );
-            }
+        //The smoothed path the ring follows
+        for (let i = 0; i < smoothed_path.length - 1; i++) {
+            global.line_renderer.addLine(
+                vec3.add(position, smoothed_path[i], offset),
+                vec3.add(target, smoothed_path[i + 1], offset),
+                cyan
+            );
         }
         gl.disable(gl.DEPTH_TEST);
         let vp_matrix = mat4.mul(mat4.create(), projection_matrix, view_matrix);
@@ -173,11 +215,7 @@ export class Game {
 
         //basicModelRenderer.addBasicModel(Player.model);
         renderer.removeAllModels();
-        renderer.addBasicModel(this.world.diskA_model);
-        renderer.addBasicModel(this.world.diskB_model);
-        renderer.addBasicModel(this.world.diskC_model);
-        renderer.addBasicModel(this.world.diskD_model);
-        renderer.addBasicModel(this.world.diskE_model);
+        for (let model of this.world.disk_models.values()) renderer.addBasicModel(model);
         renderer.addBasicModel(this.ring_model);
         renderer.addBasicModel(this.rod_model);
         renderer.addBasicModel(this.bat_model);
@@ -242,9 +280,19 @@ export class Game {
             g_keys[77] = false;
         }
 
+        //G to generate a new world from a random seed
+        if (g_keys[71]) {
+            this.destroyIntoGeneratedWorld(Random.randomSeed());
+            this.initRenderer();
+            this.addAllGameEntitiesToRenderer();
+            g_keys[71] = false;
+        }
+
         if (g_keys[80]) {
             g_keys[80] = false;
             this.show_path = !this.show_path;
+            //Moving disks don't update the point line while it is hidden
+            if (this.show_path) this.initWorldGraphPointLine();
         }
 
         if (g_keys[76]) {
@@ -252,6 +300,55 @@ export class Game {
             global.poor_performance = !global.poor_performance;
         }
 
+        //H to switch between a mesh per heightmap and the shared grid displaced on the GPU
+        if (g_keys[72]) {
+            g_keys[72] = false;
+            Disk.gpu_displacement = !Disk.gpu_displacement;
+            this.world.rebuildHeightMapModels(gl);
+            this.initRenderer();
+            this.addAllGameEntitiesToRenderer();
+            console.log("GPU heightmap displacement " + (Disk.gpu_displacement ? "on" : "off"));
+        }
+
+        //N to download a snapshot of the world with its heightmaps
+        if (g_keys[78]) {
+            g_keys[78] = false;
+            this.saveSnapshot();
+        }
+
+        //K to toggle heightmap levels of detail
+        if (g_keys[75]) {
+            g_keys[75] = false;
+            console.log("heightmap triangles last frame: " + renderer.heightmap_triangle_count);
+            global.lod_enabled = !global.lod_enabled;
+            console.log("heightmap LOD " + (global.lod_enabled ? "on" : "off"));
+        }
+
+        //J to switch between blending overlapping disks and using the first disk in the list
+        if (g_keys[74]) {
+            g_keys[74] = false;
+            World.blend_terrain = !World.blend_terrain;
+            console.log("terrain blending " + (World.blend_terrain ? "on" : "off"));
+        }
+
+        //E to toggle the world editor
+        if (g_keys[69]) {
+            g_keys[69] = false;
+            this.toggleEditor();
+        }
+
+        //The game is paused while editing
+        if (this.editor_mode) {
+            //Ctrl+S to save the world to a map file
+            if (g_keys[17] && g_keys[83]) {
+                g_keys[83] = false;
+                this.saveEditedWorld();
+            }
+            if (this.editor.update(delta_ms)) this.rebuildEditedWorld();
+            global.resetMousePosition();
+            return;
+        }
+
         //R to reset
         if (g_keys[82]) {
             this.player.reset(this.world);
@@ -303,6 +400,7 @@ export class Game {
 
         if (g_keys[32]) this.player.jump();
 
+        this.updateMovingDisks(delta_ms);
         this.player.update(this.world, delta_ms);
 
         for (let bat of this.bats) {
@@ -344,6 +442,38 @@ export class Game {
         vec3.add(this.player_camera.position, this.player_camera.position, PLAYER_CAMERA_OFFSET);
     }
 
+    //Moves the moving disks and carries the player, rings and rods standing on them
+    private updateMovingDisks(delta_ms: number): void {
+        if (!this.world.hasMovingDisks()) return;
+
+        //Find what everything is standing on before the disks move
+        let riders: Entity[] = [];
+        let rider_disks: Disk[] = [];
+        let findDisk = (entity: Entity, feet_y: number) => {
+            let climb_y = feet_y + World.step_height;
+            let disk = this.world.getDiskAtPosition(entity.position[0], entity.position[2], 0, climb_y);
+            if (disk && disk.motion) {
+                riders.push(entity);
+                rider_disks.push(disk);
+            }
+        };
+        if (this.player.isOnGround()) findDisk(this.player, this.player.position[1] - this.player.model.half_height);
+        for (let ring of this.pickup_manager.rings) {
+            if (!ring.picked_up) findDisk(ring, ring.position[1] - ring.half_height);
+        }
+        for (let rod of this.pickup_manager.rods) {
+            if (!rod.picked_up) findDisk(rod, rod.position[1]);
+        }
+
+        this.world.updateMotion(delta_ms);
+        for (let i = 0; i < riders.length; i++) rider_disks[i].carry(riders[i]);
+        let toggled = this.world_graph.updateMovingDisks(this.world.disks);
+        //The point line only has the enabled links so it is rebuilt when one is turned on or off
+        if (!this.show_path) return;
+        if (toggled) this.initWorldGraphPointLine();
+        else this.updateWorldGraphPointLine();
+    }
+
     public draw(): void {
         let camera_pos = this.active_camera.value.position;
 
@@ -397,6 +527,8 @@ export class Game {
             this.displayRingZeroPath(view_matrix, projection_matrix);
         }
 
+        if (this.editor_mode) this.editor.draw(view_matrix, projection_matrix);
+
         //Render the shadow map texture
         // if(renderer.shadow_enabled)
         //     global.renderer.depth_texture.renderDepthTextureToQuad(0, 0, 256, 256);
@@ -412,6 +544,49 @@ export class Game {
         }
     }
 
+    public toggleEditor(): void {
+        this.editor_mode = !this.editor_mode;
+        if (this.editor_mode) {
+            //The cursor is needed to pick disks
+            this.camera_lock = true;
+            this.active_camera.value = this.overview_camera;
+            if (document.exitPointerLock) document.exitPointerLock();
+            console.log("editor: click select/drag, right click add, [ ] resize, T terrain, Del delete,");
+            console.log("editor: ctrl+z undo, ctrl+y redo, ctrl+s save, WASD pan, B sculpt, E exit");
+        } else {
+            this.camera_lock = false;
+            this.active_camera.value = this.player_camera;
+            this.editor.selected = -1;
+            //The disk the player was on may have moved
+            this.player.reset(this.world);
+        }
+    }
+
+    //Rebuilds everything made from the disks after the editor changed them
+    //The movement graph is only updated around the changed disks so rings keep their paths where they can
+    private rebuildEditedWorld(): void {
+        for (let change of this.editor.takeChanges()) {
+            let invalidated: Set<number>;
+            if (change.type === Disk_Change_Type.ADDED)
+                invalidated = this.world_graph.addDisk(this.world.disks, change.index);
+            else if (change.type === Disk_Change_Type.REMOVED)
+                invalidated = this.world_graph.removeDisk(this.world.disks, change.index);
+            else invalidated = this.world_graph.updateDisk(this.world.disks, change.index);
+            this.pickup_manager.onGraphChanged(invalidated);
+        }
+        this.initWorldGraphPointLine();
+        this.initRenderer();
+        this.addAllGameEntitiesToRenderer();
+    }
+
+    //Saves the edited world and puts it in the map list so it can be loaded again with M
+    private saveEditedWorld(): void {
+        let map = this.editor.save();
+        let index = Game.maps.findIndex(m => m.name === map.name);
+        if (index === -1) Game.maps.push(map);
+        else Game.maps[index] = map;
+    }
+
     public reset():void{
         this.player.reset(this.world);
     }
@@ -516,7 +691,41 @@ export class Game {
 
         this.world.destroy();
         this.world.init(gl, Game.maps[this.current_map++]);
-        this.world_graph = new MovementGraph(this.world.disks);
+        this.initWorldEntities();
+    }
+
+    //Replaces the world with one generated from the seed
+    public destroyIntoGeneratedWorld(seed: number): void {
+        this.world.destroy();
+        this.world.load(gl, WorldGenerator.generate({ seed: seed }));
+        console.log("generated world seed: " + seed);
+        this.initWorldEntities();
+    }
+
+    //Downloads the world and its heightmaps as a snapshot file that restoreSnapshot can load
+    public saveSnapshot(): void {
+        let name = this.world.name.replace(/\.[^.]*$/, "") + ".dskw";
+        let link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([this.world.saveSnapshot()], { type: "application/octet-stream" }));
+        link.download = name;
+        link.click();
+        URL.revokeObjectURL(link.href);
+        console.log("saved world snapshot: " + name);
+    }
+
+    //Replaces the world with a snapshot exactly as it was saved
+    public restoreSnapshot(data: Uint8Array, file_name: string): void {
+        let start = Date.now();
+        this.world.loadSnapshot(gl, data, file_name);
+        console.log("snapshot restore time: " + (Date.now() - start) / 1000 + "s");
+        this.initWorldEntities();
+        this.initRenderer();
+        this.addAllGameEntitiesToRenderer();
+    }
+
+    private initWorldEntities(): void {
+        this.editor.reset();
+        this.world_graph = new MovementGraph(this.world.disks, PathCosts.ring);
         this.initBats();
         this.initWorldGraphPointLine();
 
@@ -596,7 +805,10 @@ export class Game {
 
     private async loadWorldData(): Promise<void> {
         Game.maps = [];
-        let context = require.context("assets/worlds/maps/", true, /\.txt$/);
-        context.keys().forEach(key => Game.maps.push(context(key).default));
+        let context = require.context("assets/worlds/maps/", true, /\.(txt|json)$/);
+        context.keys().forEach(key =>
+            Game.maps.push({ name: key.replace(/^\.\//, ""), data: context(key).default })
+        );
+        await World.loadHeightImages(Game.maps);
     }
 }
@@ -12,9 +12,13 @@ export namespace global {
     export var mouse_keys: Array<boolean> = [];
     export var mouse_x_total: number = 0;
     export var mouse_y_total: number = 0;
+    //Cursor position in the window, for when the pointer isn't locked
+    export var mouse_x: number = 0;
+    export var mouse_y: number = 0;
     export var is_mobile: boolean = false;
     export var poor_performance: boolean = false;
     export var toggled_performance: boolean = false;
+    export var lod_enabled: boolean = true;
 
     export var renderer: Renderer;
     export var line_renderer: LineRenderer;
@@ -0,0 +1,89 @@
+import {vec2} from "gl-matrix";
+import {Disk} from "./entities/disk";
+import {Random} from "./helpers/random";
+
+export enum Brush_Type {
+    RAISE,
+    LOWER,
+    SMOOTH,
+    FLATTEN,
+    NOISE
+}
+
+export interface Brush {
+    type: Brush_Type;
+    //Radius in world units
+    radius: number;
+    //Height change per second in the middle of the brush
+    //For smooth and flatten it is how much closer to the target height it gets per second
+    strength: number;
+}
+
+let center = vec2.create();
+
+//Sculpting brushes that edit a disk's heightmap in place
+export namespace HeightMapBrushes {
+    //Applies the brush for delta_s seconds centered on the world position x, z
+    //Returns false if the brush doesn't touch the heightmap
+    export function apply(
+        gl: WebGL2RenderingContext,
+        disk: Disk,
+        brush: Brush,
+        x: number,
+        z: number,
+        delta_s: number,
+        random: Random
+    ): boolean {
+        let size = disk.heightMapSize;
+        let height_map = disk.heightMap;
+        let r = brush.radius * disk.getHeightMapScale();
+        disk.toHeightMapPosition(center, x, z);
+
+        //The edges are left alone so the heightmap still meets the top of the disk
+        let x0 = Math.max(Math.ceil(center[0] - r), 1);
+        let x1 = Math.min(Math.floor(center[0] + r), size - 1);
+        let z0 = Math.max(Math.ceil(center[1] - r), 1);
+        let z1 = Math.min(Math.floor(center[1] + r), size - 1);
+        if (x0 > x1 || z0 > z1) return false;
+
+        //Smoothing has to read the heights from before this step
+        let old = brush.type === Brush_Type.SMOOTH ? height_map.map(row => row.slice()) : height_map;
+        let target = disk.getHeightAtPosition(x, z) - disk.position[1];
+
+        for (let hx = x0; hx <= x1; hx++) {
+            for (let hz = z0; hz <= z1; hz++) {
+                let dx = hx - center[0];
+                let dz = hz - center[1];
+                let d2 = (dx * dx + dz * dz) / (r * r);
+                if (d2 >= 1) continue;
+
+                //Smooth falloff to 0 at the edge of the brush
+                let amount = (1 - d2) * (1 - d2) * brush.strength * delta_s;
+
+                switch (brush.type) {
+                    case Brush_Type.RAISE:
+                        height_map[hx][hz] += amount;
+                        break;
+                    case Brush_Type.LOWER:
+                        height_map[hx][hz] -= amount;
+                        break;
+                    case Brush_Type.SMOOTH: {
+                        let average = (old[hx - 1][hz] + old[hx + 1][hz] + old[hx][hz - 1] + old[hx][hz + 1]) / 4;
+                        height_map[hx][hz] += (average - old[hx][hz]) * Math.min(amount, 1);
+                        break;
+                    }
+                    case Brush_Type.FLATTEN:
+                        height_map[hx][hz] += (target - height_map[hx][hz]) * Math.min(amount, 1);
+                        break;
+                    case Brush_Type.NOISE:
+                        height_map[hx][hz] += random.randf(-1, 1) * amount;
+                        break;
+                }
+            }
+        }
+
+        disk.sculpted = true;
+        disk.updateHeightMapModel(gl, x0, z0, x1, z1);
+        return true;
+    }
+}
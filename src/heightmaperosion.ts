@@ -0,0 +1,205 @@
+import {Random} from "./helpers/random";
+
+//Water droplets that carry sediment downhill, carving channels and filling hollows
+export interface HydraulicErosionParams {
+    droplets: number;
+    //Scales how much sediment a droplet picks up and drops
+    strength: number;
+}
+
+//Material on slopes steeper than the talus slope slumps onto its lower neighbours
+export interface ThermalErosionParams {
+    iterations: number;
+    //Steepest height difference between neighbouring cells that doesn't slump
+    talus: number;
+    //Fraction of the extra height that moves per iteration, from 0 to 1
+    strength: number;
+}
+
+//The erosion field of a terrain definition, either pass can be left off
+export interface ErosionParams {
+    hydraulic?: HydraulicErosionParams;
+    thermal?: ThermalErosionParams;
+}
+
+//Droplet simulation constants
+const MAX_STEPS = 32;
+const INERTIA = 0.1;
+const CAPACITY = 4;
+const MIN_CAPACITY = 0.01;
+const ERODE_RATE = 0.3;
+const DEPOSIT_RATE = 0.3;
+const EVAPORATION = 0.05;
+const GRAVITY = 4;
+
+//Weathers a generated heightmap in place
+//The border is never changed so the heightmap still meets the top of the disk
+export namespace HeightMapErosion {
+    export function validate(params: any, source: string): void {
+        if (typeof params !== "object" || params === null) throw source + ": erosion must be an object";
+        if (params.hydraulic !== undefined) {
+            let hydraulic = params.hydraulic;
+            if (!Number.isInteger(hydraulic.droplets) || hydraulic.droplets < 0)
+                throw source + ": erosion.hydraulic.droplets must be a non-negative integer";
+            if (typeof hydraulic.strength !== "number" || hydraulic.strength < 0)
+                throw source + ": erosion.hydraulic.strength must be a non-negative number";
+        }
+        if (params.thermal !== undefined) {
+            let thermal = params.thermal;
+            if (!Number.isInteger(thermal.iterations) || thermal.iterations < 0)
+                throw source + ": erosion.thermal.iterations must be a non-negative integer";
+            if (typeof thermal.talus !== "number" || thermal.talus < 0)
+                throw source + ": erosion.thermal.talus must be a non-negative number";
+            if (typeof thermal.strength !== "number" || thermal.strength < 0 || thermal.strength > 1)
+                throw source + ": erosion.thermal.strength must be between 0 and 1";
+        }
+    }
+
+    //Runs the hydraulic pass then the thermal pass
+    //Only the random decides where droplets fall so the same seed gives the same result
+    export function apply(height_map: number[][], params: ErosionParams, random: Random): void {
+        if (params.hydraulic) hydraulic(height_map, params.hydraulic, random);
+        if (params.thermal) thermal(height_map, params.thermal);
+    }
+
+    export function hydraulic(height_map: number[][], params: HydraulicErosionParams, random: Random): void {
+        let size = height_map.length - 1;
+        if (size < 2) return;
+
+        for (let i = 0; i < params.droplets; i++) {
+            let x = random.randf(1, size - 1);
+            let z = random.randf(1, size - 1);
+            let dir_x = 0;
+            let dir_z = 0;
+            let speed = 1;
+            let water = 1;
+            let sediment = 0;
+
+            for (let step = 0; step < MAX_STEPS; step++) {
+                let cell_x = Math.floor(x);
+                let cell_z = Math.floor(z);
+                let fx = x - cell_x;
+                let fz = z - cell_z;
+                let h00 = height_map[cell_x][cell_z];
+                let h10 = height_map[cell_x + 1][cell_z];
+                let h01 = height_map[cell_x][cell_z + 1];
+                let h11 = height_map[cell_x + 1][cell_z + 1];
+                let height = bilerp(h00, h10, h01, h11, fx, fz);
+                let gradient_x = (h10 - h00) * (1 - fz) + (h11 - h01) * fz;
+                let gradient_z = (h01 - h00) * (1 - fx) + (h11 - h10) * fx;
+
+                //Flow downhill keeping some of the old direction
+                dir_x = dir_x * INERTIA - gradient_x * (1 - INERTIA);
+                dir_z = dir_z * INERTIA - gradient_z * (1 - INERTIA);
+                let length = Math.sqrt(dir_x * dir_x + dir_z * dir_z);
+                if (length < 1e-6) break;
+                dir_x /= length;
+                dir_z /= length;
+                x += dir_x;
+                z += dir_z;
+
+                //Droplets stop at the border, the sediment they carry is lost
+                if (x < 1 || x >= size - 1 || z < 1 || z >= size - 1) break;
+
+                let new_height = bilerp(
+                    height_map[Math.floor(x)][Math.floor(z)],
+                    height_map[Math.floor(x) + 1][Math.floor(z)],
+                    height_map[Math.floor(x)][Math.floor(z) + 1],
+                    height_map[Math.floor(x) + 1][Math.floor(z) + 1],
+                    x - Math.floor(x),
+                    z - Math.floor(z)
+                );
+                let delta_height = new_height - height;
+                let capacity = Math.max(-delta_height * speed * water * CAPACITY, MIN_CAPACITY);
+
+                if (sediment > capacity || delta_height > 0) {
+                    //Uphill fills the hollow behind it, otherwise drop what can't be carried
+                    let amount =
+                        delta_height > 0
+                            ? Math.min(delta_height, sediment)
+                            : (sediment - capacity) * DEPOSIT_RATE * params.strength;
+                    amount = Math.min(amount, sediment);
+                    sediment -= amount;
+                    spread(height_map, cell_x, cell_z, fx, fz, amount, size);
+                } else {
+                    //Never dig deeper than the height difference so no pits are made
+                    let amount = Math.min((capacity - sediment) * ERODE_RATE * params.strength, -delta_height);
+                    sediment += amount;
+                    spread(height_map, cell_x, cell_z, fx, fz, -amount, size);
+                }
+
+                speed = Math.sqrt(Math.max(speed * speed - delta_height * GRAVITY, 0));
+                water *= 1 - EVAPORATION;
+            }
+        }
+    }
+
+    export function thermal(height_map: number[][], params: ThermalErosionParams): void {
+        let size = height_map.length - 1;
+        let change: number[][] = [];
+        for (let x = 0; x <= size; x++) change.push(new Array(size + 1).fill(0));
+
+        for (let i = 0; i < params.iterations; i++) {
+            //Every cell slumps based on the heights from before this iteration
+            for (let x = 1; x < size; x++) {
+                for (let z = 1; z < size; z++) {
+                    let h = height_map[x][z];
+                    let lowest_x = x;
+                    let lowest_z = z;
+                    let steepest = params.talus;
+                    for (let [nx, nz] of [[x - 1, z], [x + 1, z], [x, z - 1], [x, z + 1]]) {
+                        let difference = h - height_map[nx][nz];
+                        if (difference > steepest) {
+                            steepest = difference;
+                            lowest_x = nx;
+                            lowest_z = nz;
+                        }
+                    }
+                    if (lowest_x === x && lowest_z === z) continue;
+
+                    let amount = ((steepest - params.talus) / 2) * params.strength;
+                    change[x][z] -= amount;
+                    change[lowest_x][lowest_z] += amount;
+                }
+            }
+
+            for (let x = 1; x < size; x++) {
+                for (let z = 1; z < size; z++) {
+                    height_map[x][z] += change[x][z];
+                    change[x][z] = 0;
+                }
+            }
+            //What slumped onto the border is lost so the edge stays where it was
+            for (let x = 0; x <= size; x++) {
+                change[x][0] = change[x][size] = 0;
+                change[0][x] = change[size][x] = 0;
+            }
+        }
+    }
+
+    function bilerp(h00: number, h10: number, h01: number, h11: number, fx: number, fz: number): number {
+        return (h00 * (1 - fx) + h10 * fx) * (1 - fz) + (h01 * (1 - fx) + h11 * fx) * fz;
+    }
+
+    //Adds the amount to the four corners of a cell weighted by how close the droplet is to them
+    function spread(
+        height_map: number[][],
+        x: number,
+        z: number,
+        fx: number,
+        fz: number,
+        amount: number,
+        size: number
+    ): void {
+        let corners: [number, number, number][] = [
+            [x, z, (1 - fx) * (1 - fz)],
+            [x + 1, z, fx * (1 - fz)],
+            [x, z + 1, (1 - fx) * fz],
+            [x + 1, z + 1, fx * fz]
+        ];
+        for (let [cx, cz, weight] of corners) {
+            if (cx <= 0 || cz <= 0 || cx >= size || cz >= size) continue;
+            height_map[cx][cz] += amount * weight;
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import {Noise, NoiseRecipe} from "./noisefield";
+import {Random} from "./helpers/random";
+
+//Fills a (size + 1) * (size + 1) heightmap indexed [x][z]
+//Params are the generator_params of the terrain definition
+export type HeightMapGenerator = (size: number, random: Random, params?: any) => number[][];
+
+interface NoiseParams {
+    recipe: NoiseRecipe;
+    floor?: number;
+}
+
+//The heightmap generators that terrain definitions can refer to by name
+export namespace HeightMapGenerators {
+    const generators = new Map<string, HeightMapGenerator>();
+
+    export function register(name: string, generator: HeightMapGenerator): void {
+        generators.set(name, generator);
+    }
+
+    export function get(name: string): HeightMapGenerator {
+        let generator = generators.get(name);
+        if (generator === undefined) throw "No heightmap generator named: " + name;
+        return generator;
+    }
+
+    export function has(name: string): boolean {
+        return generators.has(name);
+    }
+
+    function redRock(size: number, random: Random): number[][] {
+        let height_map: number[][] = [];
+        let heights = [];
+        heights.push(0, 0);
+        for (let i = 2; i <= size / 2; i++) {
+            let a = heights[i - 1];
+            heights.push(Math.round((a + random.next() * 3 - 1) * 1e1) / 1e1);
+        }
+
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = [];
+            let max = x > size / 2 ? size - x : x;
+            for (let z = 0; z <= size; z++) {
+                if (z > size - max) max--;
+                let a = z;
+                if (a > max) a = max;
+                height_map[x].push(heights[a]);
+            }
+        }
+        return height_map;
+    }
+
+    function icy(size: number, random: Random): number[][] {
+        let points = [];
+
+        let h = size / 2;
+        for (let i = 0; i < 200; i++) {
+            let d1 = random.next() * h;
+            let d2 = random.next() * h;
+            let d3 = random.next() * h;
+            let d4 = random.next() * h;
+            let d = Math.max(d1, d2, d3, d4);
+            let a = random.next() * Math.PI * 2;
+            let x = h + Math.cos(a) * d;
+            let z = h + Math.sin(a) * d;
+            let m = (h - d) * 0.7;
+            let y = random.next() * (m + m) - m;
+            points.push([x, y, z]);
+        }
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let min = 0,
+                    max = 0;
+                for (let i = 0; i < points.length; i++) {
+                    let x2 = (points[i][0] - x) * (points[i][0] - x);
+                    let z2 = (points[i][2] - z) * (points[i][2] - z);
+                    let distance = Math.sqrt(x2 + z2);
+                    max = Math.max(max, points[i][1] - distance);
+                    min = Math.min(min, points[i][1] + distance);
+                }
+                height_map[x][z] = max + min;
+            }
+        }
+        return height_map;
+    }
+
+    function leafy(size: number, random: Random): number[][] {
+        //Math.random() * (max - min) + min;
+        let LL = random.next() * 2 - 1;
+        let LC = random.next() * 2 - 1;
+        let LR = random.next() * 2 - 1;
+        let RI = random.next() * 2 - 1;
+        let RM = random.next() * 2 - 1;
+        let RO = random.next() * 2 - 1;
+
+        let a1 = random.randi(7);
+        let a2 = random.randi(7);
+        let ARM_COUNT = a1 < a2 ? a1 : a2;
+        let ARM_RADIANS = random.next() * (Math.PI * 2);
+
+        let AI = random.next();
+        let AM = random.next();
+        let AO = random.next();
+        if (random.next() > 0.5) {
+            AI = -AI;
+            AM = -AM;
+            AO = -AO;
+        }
+
+        let height_map: number[][] = new Array(size + 1);
+
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let ux = x / size;
+                let uy = z / size;
+                let x2 = ux * 2 - 1;
+                let y2 = uy * 2 - 1;
+                let dist = Math.min(Math.sqrt(x2 * x2 + y2 * y2), 1);
+                let radians = Math.atan2(y2, x2);
+
+                let ll = Math.pow(ux, 4) * (1 - ux) * 12;
+                let lc = (Math.cos(Math.PI * x2) + 1) * 0.5;
+                let lr = Math.pow(1 - ux, 4) * ux * 12;
+                let lsum = ll * LL + lc * LC + lr * LR;
+
+                let ri = Math.pow(Math.max(1 - dist, 0), 2);
+                let rm = Math.sin(Math.PI * Math.min(Math.pow(dist, 0.8) * (4 / 3), 1));
+                let ro = Math.max(Math.sin(Math.PI * Math.pow(dist, 1.6)), 0);
+                let rsum = ri * RI + rm * RM + ro * RO;
+
+                let ai = (Math.sqrt(dist) - dist) * 4;
+                let am = Math.pow(dist, 2) * Math.pow(1 - dist, 2) * 16;
+                let ao = (Math.sqrt(1 - dist) - (1 - dist)) * 4;
+                let asum = ai * AI + am * AM + ao * AO;
+
+                let non_arm_height = lsum * rsum;
+                let arm_radians = radians * ARM_COUNT + ARM_RADIANS;
+                let arm_magnitude = (Math.sin(arm_radians) + 1.0) * 0.5;
+                let arm_height = arm_magnitude * asum;
+                height_map[x][z] = non_arm_height * 5 + arm_height * 3;
+            }
+        }
+        return height_map;
+    }
+
+    //Flat pool sunk below the rim with bubbles rising out of it
+    function lava(size: number, random: Random): number[][] {
+        let bubbles = [];
+        let bubble_count = 3 + random.randi(5);
+        for (let i = 0; i < bubble_count; i++) {
+            bubbles.push({
+                x: random.randf(0.2, 0.8) * size,
+                z: random.randf(0.2, 0.8) * size,
+                radius: random.randf(0.04, 0.1) * size,
+                height: random.randf(0.2, 0.5)
+            });
+        }
+
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let h = -0.4 * edgeFalloff(x, z, size);
+                for (let bubble of bubbles) {
+                    let dx = (x - bubble.x) / bubble.radius;
+                    let dz = (z - bubble.z) / bubble.radius;
+                    let d2 = dx * dx + dz * dz;
+                    if (d2 < 1) h += Math.sqrt(1 - d2) * bubble.height;
+                }
+                height_map[x][z] = h;
+            }
+        }
+        return height_map;
+    }
+
+    //Smooth round mounds to bounce off
+    function bouncy(size: number, random: Random): number[][] {
+        let mounds = [];
+        let mound_count = 2 + random.randi(4);
+        for (let i = 0; i < mound_count; i++) {
+            mounds.push({
+                x: random.randf(0.25, 0.75) * size,
+                z: random.randf(0.25, 0.75) * size,
+                radius: random.randf(0.1, 0.25) * size,
+                height: random.randf(0.5, 1.5)
+            });
+        }
+
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let h = 0;
+                for (let mound of mounds) {
+                    let dx = (x - mound.x) / mound.radius;
+                    let dz = (z - mound.z) / mound.radius;
+                    h += Math.exp(-(dx * dx + dz * dz)) * mound.height;
+                }
+                height_map[x][z] = h * edgeFalloff(x, z, size);
+            }
+        }
+        return height_map;
+    }
+
+    //Spiral ridges like the slats of a turntable
+    function conveyor(size: number, random: Random): number[][] {
+        let arm_count = 3 + random.randi(4);
+        let twist = random.randf(4, 8);
+        let offset = random.randf(0, Math.PI * 2);
+
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let x2 = (x / size) * 2 - 1;
+                let z2 = (z / size) * 2 - 1;
+                let dist = Math.sqrt(x2 * x2 + z2 * z2);
+                let radians = Math.atan2(z2, x2);
+                let ridge = Math.sin(radians * arm_count + dist * twist + offset);
+                height_map[x][z] = ridge * 0.15 * edgeFalloff(x, z, size);
+            }
+        }
+        return height_map;
+    }
+
+    //Heights from the noise recipe in the terrain's generator_params
+    //Heights below the optional floor are pressed flat into puddles
+    function noise(size: number, random: Random, params: NoiseParams): number[][] {
+        if (!params || !params.recipe) throw "The noise heightmap generator needs a recipe";
+        let field = Noise.fromRecipe(params.recipe, random.nextSeed());
+        let floor = params.floor;
+
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let h = field(z, x);
+                if (floor !== undefined && h < floor) h = floor + (h - floor) * 0.2;
+                height_map[x][z] = h * edgeFalloff(x, z, size);
+            }
+        }
+        return height_map;
+    }
+
+    //1 in the middle of the heightmap going smoothly to 0 at the edges
+    export function edgeFalloff(x: number, z: number, size: number): number {
+        let ux = x / size;
+        let uz = z / size;
+        let edge = Math.max(
+            Math.max(Math.pow(ux, 6), Math.pow(1.0 - ux, 6)),
+            Math.max(Math.pow(uz, 6), Math.pow(1.0 - uz, 6))
+        );
+        return (1 - edge) / (1.0 - Math.pow(0.5, 6));
+    }
+
+    register("red_rock", redRock);
+    register("leafy", leafy);
+    register("icy", icy);
+    register("lava", lava);
+    register("bouncy", bouncy);
+    register("conveyor", conveyor);
+    register("noise", noise);
+}
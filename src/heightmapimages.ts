@@ -0,0 +1,57 @@
+import {GrayImage, Png} from "./helpers/png";
+import {HeightMapGenerators} from "./heightmapgenerators";
+
+//A grayscale PNG in /assets/worlds/heightmaps/ that replaces a disk's generated heightmap
+export interface HeightImageReference {
+    file: string;
+    //Height of a white pixel, black is 0
+    scale: number;
+}
+
+//Heightmap images decoded ahead of time so disks can be created synchronously
+export namespace HeightMapImages {
+    const images = new Map<string, GrayImage>();
+
+    //Decodes a PNG file and stores it under the file name
+    export function load(file: string, data: Uint8Array): GrayImage {
+        let image = Png.decode(data, file);
+        images.set(file, image);
+        return image;
+    }
+
+    export function get(file: string): GrayImage {
+        let image = images.get(file);
+        if (image === undefined) throw "Heightmap image '" + file + "' was not loaded";
+        return image;
+    }
+
+    export function has(file: string): boolean {
+        return images.has(file);
+    }
+
+    //Downloads and decodes every image that isn't loaded yet
+    export async function download(files: string[], base_url: string = "/assets/worlds/heightmaps/"): Promise<void> {
+        let missing = Array.from(new Set(files)).filter(file => !images.has(file));
+        await Promise.all(
+            missing.map(async file => {
+                let response = await fetch(base_url + file);
+                if (!response.ok) throw "Could not download heightmap image '" + file + "': " + response.status;
+                load(file, new Uint8Array(await response.arrayBuffer()));
+            })
+        );
+    }
+
+    //Samples the image over a (size + 1) by (size + 1) heightmap indexed [x][z]
+    //Uses the same edge falloff as the sandy heightmap so the edges meet the top of the disk
+    export function toHeightMap(image: GrayImage, size: number, scale: number): number[][] {
+        let height_map: number[][] = new Array(size + 1);
+        for (let x = 0; x <= size; x++) {
+            height_map[x] = new Array(size + 1);
+            for (let z = 0; z <= size; z++) {
+                let h = Png.sampleBilinear(image, x / size, z / size) * scale;
+                height_map[x][z] = h * HeightMapGenerators.edgeFalloff(x, z, size);
+            }
+        }
+        return height_map;
+    }
+}
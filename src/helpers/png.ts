@@ -0,0 +1,205 @@
+import * as zlib from "zlib";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+enum Color_Type {
+    GRAY = 0,
+    RGB = 2,
+    PALETTE = 3,
+    GRAY_ALPHA = 4,
+    RGBA = 6
+}
+
+const CHANNELS: { [type: number]: number } = {
+    [Color_Type.GRAY]: 1,
+    [Color_Type.RGB]: 3,
+    [Color_Type.PALETTE]: 1,
+    [Color_Type.GRAY_ALPHA]: 2,
+    [Color_Type.RGBA]: 4
+};
+
+//A decoded image as brightness values
+export interface GrayImage {
+    width: number;
+    height: number;
+    //Brightness from 0 to 1, row by row from the top left
+    pixels: Float32Array;
+}
+
+//Decodes PNG files without the DOM so it also works outside the browser
+//Colour images are converted to their brightness. Interlaced images are not supported
+export namespace Png {
+    export function decode(data: Uint8Array, file_name: string = "image"): GrayImage {
+        for (let i = 0; i < SIGNATURE.length; i++) {
+            if (data[i] !== SIGNATURE[i]) throw file_name + ": Not a PNG file";
+        }
+
+        let view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        let width = 0;
+        let height = 0;
+        let bit_depth = 0;
+        let color_type = 0;
+        let palette: Uint8Array | null = null;
+        let idat: Uint8Array[] = [];
+
+        let offset = SIGNATURE.length;
+        while (offset + 8 <= data.length) {
+            let length = view.getUint32(offset);
+            let type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+            let chunk = data.subarray(offset + 8, offset + 8 + length);
+            if (chunk.length !== length) throw file_name + ": Truncated " + type + " chunk";
+            //Skip the length, type, data and CRC
+            offset += 12 + length;
+
+            if (type === "IHDR") {
+                width = view.getUint32(chunk.byteOffset - data.byteOffset);
+                height = view.getUint32(chunk.byteOffset - data.byteOffset + 4);
+                bit_depth = chunk[8];
+                color_type = chunk[9];
+                if (CHANNELS[color_type] === undefined) throw file_name + ": Unknown color type " + color_type;
+                if (chunk[12] !== 0) throw file_name + ": Interlaced PNGs are not supported";
+            } else if (type === "PLTE") {
+                palette = chunk;
+            } else if (type === "IDAT") {
+                idat.push(chunk);
+            } else if (type === "IEND") {
+                break;
+            }
+        }
+        if (width === 0 || height === 0) throw file_name + ": Missing IHDR chunk";
+        if (idat.length === 0) throw file_name + ": Missing IDAT chunk";
+        if (color_type === Color_Type.PALETTE && !palette) throw file_name + ": Missing PLTE chunk";
+
+        let compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+        let position = 0;
+        for (let chunk of idat) {
+            compressed.set(chunk, position);
+            position += chunk.length;
+        }
+        let inflated = new Uint8Array(zlib.inflateSync(Buffer.from(compressed)));
+
+        let channels = CHANNELS[color_type];
+        let bits_per_pixel = channels * bit_depth;
+        let stride = Math.ceil((width * bits_per_pixel) / 8);
+        if (inflated.length < (stride + 1) * height) throw file_name + ": Not enough image data";
+
+        let rows = unfilter(inflated, width, height, stride, Math.max(1, bits_per_pixel >> 3), file_name);
+        let max = (1 << bit_depth) - 1;
+        let pixels = new Float32Array(width * height);
+        let pixel = new Array(channels);
+
+        for (let y = 0; y < height; y++) {
+            let row = rows.subarray(y * stride, (y + 1) * stride);
+            for (let x = 0; x < width; x++) {
+                for (let c = 0; c < channels; c++) pixel[c] = readSample(row, x * channels + c, bit_depth);
+
+                let brightness: number;
+                switch (color_type) {
+                    case Color_Type.GRAY:
+                    case Color_Type.GRAY_ALPHA:
+                        brightness = pixel[0] / max;
+                        break;
+                    case Color_Type.RGB:
+                    case Color_Type.RGBA:
+                        brightness = luminance(pixel[0], pixel[1], pixel[2]) / max;
+                        break;
+                    case Color_Type.PALETTE: {
+                        let i = pixel[0] * 3;
+                        brightness = luminance(palette[i], palette[i + 1], palette[i + 2]) / 255;
+                        break;
+                    }
+                }
+                pixels[y * width + x] = brightness;
+            }
+        }
+
+        return { width: width, height: height, pixels: pixels };
+    }
+
+    //Returns the brightness at u, v in [0, 1] blending the four nearest pixels
+    export function sampleBilinear(image: GrayImage, u: number, v: number): number {
+        let x = Math.min(Math.max(u, 0), 1) * (image.width - 1);
+        let y = Math.min(Math.max(v, 0), 1) * (image.height - 1);
+        let x0 = Math.floor(x);
+        let y0 = Math.floor(y);
+        let x1 = Math.min(x0 + 1, image.width - 1);
+        let y1 = Math.min(y0 + 1, image.height - 1);
+        let fx = x - x0;
+        let fy = y - y0;
+
+        let p = image.pixels;
+        let top = p[y0 * image.width + x0] * (1 - fx) + p[y0 * image.width + x1] * fx;
+        let bottom = p[y1 * image.width + x0] * (1 - fx) + p[y1 * image.width + x1] * fx;
+        return top * (1 - fy) + bottom * fy;
+    }
+
+    //Reverses the filter applied to each row. Returns the rows without their filter bytes
+    function unfilter(
+        data: Uint8Array,
+        width: number,
+        height: number,
+        stride: number,
+        bpp: number,
+        file_name: string
+    ): Uint8Array {
+        let out = new Uint8Array(stride * height);
+        for (let y = 0; y < height; y++) {
+            let filter = data[y * (stride + 1)];
+            let src = y * (stride + 1) + 1;
+            let dst = y * stride;
+            let prev = dst - stride;
+
+            for (let i = 0; i < stride; i++) {
+                let a = i >= bpp ? out[dst + i - bpp] : 0;
+                let b = y > 0 ? out[prev + i] : 0;
+                let c = i >= bpp && y > 0 ? out[prev + i - bpp] : 0;
+                let value = data[src + i];
+
+                switch (filter) {
+                    case 0:
+                        break;
+                    case 1:
+                        value += a;
+                        break;
+                    case 2:
+                        value += b;
+                        break;
+                    case 3:
+                        value += (a + b) >> 1;
+                        break;
+                    case 4:
+                        value += paeth(a, b, c);
+                        break;
+                    default:
+                        throw file_name + ": Unknown filter " + filter + " on row " + y;
+                }
+                out[dst + i] = value & 0xff;
+            }
+        }
+        return out;
+    }
+
+    function paeth(a: number, b: number, c: number): number {
+        let p = a + b - c;
+        let pa = Math.abs(p - a);
+        let pb = Math.abs(p - b);
+        let pc = Math.abs(p - c);
+        if (pa <= pb && pa <= pc) return a;
+        if (pb <= pc) return b;
+        return c;
+    }
+
+    //Reads the index'th sample of a row. Samples smaller than a byte are packed from the high bits
+    function readSample(row: Uint8Array, index: number, bit_depth: number): number {
+        if (bit_depth === 8) return row[index];
+        if (bit_depth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+
+        let bit = index * bit_depth;
+        let shift = 8 - bit_depth - (bit & 7);
+        return (row[bit >> 3] >> shift) & ((1 << bit_depth) - 1);
+    }
+
+    function luminance(r: number, g: number, b: number): number {
+        return 0.299 * r + 0.587 * g + 0.114 * b;
+    }
+}
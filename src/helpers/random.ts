@@ -1,11 +1,56 @@
-//Return random signed int
+//Seedable pseudo random number generator (mulberry32)
+//The same seed always gives the same sequence of numbers so worlds can be reproduced
 
-export namespace Random {
-    export function randi(max) {
-        return Math.floor(Math.random() * Math.floor(max));
+export class Random {
+    public readonly seed: number;
+    private state: number;
+
+    constructor(seed: number = Random.randomSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    //Returns a float in [0, 1)
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    //Returns an int in [0, max)
+    public randi(max: number): number {
+        return Math.floor(this.next() * Math.floor(max));
+    }
+
+    //Returns a float in [min, max)
+    public randf(min: number, max: number): number {
+        return this.next() * (max - min) + min;
+    }
+
+    //Returns a 32 bit unsigned int to seed another generator with
+    public nextSeed(): number {
+        return Math.floor(this.next() * 0x100000000) >>> 0;
+    }
+
+    //Returns a new generator seeded from this one
+    public fork(): Random {
+        return new Random(this.nextSeed());
+    }
+
+    //Returns a seed that is not reproducible, for when no seed was given
+    public static randomSeed(): number {
+        return Math.floor(Math.random() * 0x100000000) >>> 0;
     }
 
-    export function randf(min, max) {
-        return Math.random() * (max - min) + min;
+    //Returns a seed for a separate stream of numbers from the same seed
+    //so systems using different streams don't change each others numbers
+    public static deriveSeed(seed: number, stream: number): number {
+        let h = Math.imul((seed ^ 0x9e3779b9) >>> 0, 0x85ebca6b) ^ Math.imul(stream + 1, 0xc2b2ae35);
+        h ^= h >>> 16;
+        h = Math.imul(h, 0x7feb352d);
+        h ^= h >>> 15;
+        return h >>> 0;
     }
 }
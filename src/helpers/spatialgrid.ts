@@ -0,0 +1,82 @@
+//Uniform grid of circles on the XZ plane
+//Each id is stored in every cell its circle's bounding square touches so a query only
+//has to look at the cells around it instead of every circle
+
+const CELL_OFFSET = 32768;
+
+export class SpatialGrid {
+    private readonly cell_size: number;
+    private cells: Map<number, number[]>;
+
+    //Marks which ids were already added during a query so each id is returned once
+    private stamps: number[];
+    private stamp: number;
+
+    constructor(cell_size: number) {
+        if (!(cell_size > 0)) throw "SpatialGrid cell size must be positive";
+        this.cell_size = cell_size;
+        this.cells = new Map<number, number[]>();
+        this.stamps = [];
+        this.stamp = 0;
+    }
+
+    public clear(): void {
+        this.cells.clear();
+        this.stamps = [];
+    }
+
+    public insert(id: number, x: number, z: number, r: number): void {
+        this.forEachCell(x, z, r, key => {
+            let cell = this.cells.get(key);
+            if (cell === undefined) {
+                cell = [];
+                this.cells.set(key, cell);
+            }
+            cell.push(id);
+        });
+        if (this.stamps.length <= id) this.stamps.length = id + 1;
+        this.stamps[id] = this.stamp;
+    }
+
+    //The circle must be the same as the one the id was inserted with
+    public remove(id: number, x: number, z: number, r: number): void {
+        this.forEachCell(x, z, r, key => {
+            let cell = this.cells.get(key);
+            if (cell === undefined) return;
+            let index = cell.indexOf(id);
+            if (index !== -1) cell.splice(index, 1);
+            if (cell.length === 0) this.cells.delete(key);
+        });
+    }
+
+    //Fills out with the ids in the cells touched by the circle, in ascending order
+    //The ids may not actually intersect the circle
+    public query(x: number, z: number, r: number, out: number[]): number[] {
+        out.length = 0;
+        this.stamp++;
+        this.forEachCell(x, z, r, key => {
+            let cell = this.cells.get(key);
+            if (cell === undefined) return;
+            for (let id of cell) {
+                if (this.stamps[id] === this.stamp) continue;
+                this.stamps[id] = this.stamp;
+                out.push(id);
+            }
+        });
+        if (out.length > 1) out.sort((a, b) => a - b);
+        return out;
+    }
+
+    private forEachCell(x: number, z: number, r: number, callback: (key: number) => void): void {
+        const min_x = Math.floor((x - r) / this.cell_size);
+        const max_x = Math.floor((x + r) / this.cell_size);
+        const min_z = Math.floor((z - r) / this.cell_size);
+        const max_z = Math.floor((z + r) / this.cell_size);
+
+        for (let ix = min_x; ix <= max_x; ix++) {
+            for (let iz = min_z; iz <= max_z; iz++) {
+                callback((ix + CELL_OFFSET) * 65536 + (iz + CELL_OFFSET));
+            }
+        }
+    }
+}
@@ -21,6 +21,7 @@ let hq_toggle_element = document.getElementById("hq-toggle");
 let path_toggle_element = document.getElementById("path-toggle");
 let camera_toggle_element = document.getElementById("camera-toggle");
 let reset_element = document.getElementById("reset");
+let editor_toggle_element = document.getElementById("editor-toggle");
 
 export class Main {
     game: Game;
@@ -68,6 +69,10 @@ export class Main {
             e => {
                 this.game.reset();
             }, false );
+        editor_toggle_element.addEventListener("click",
+            e => {
+                this.game.toggleEditor();
+            }, false );
 
         //Done loading
         this.initPointerLock();
@@ -218,6 +223,8 @@ export class Main {
         ) {
             // Older API upper case 'S'.
             // Element is fullscreen, now we can request pointer lock
+            // The editor needs the cursor so don't lock it
+            if (this.game && this.game.editor_mode) return;
             _canvas.requestPointerLock =
                 _canvas.requestPointerLock || _canvas.mozRequestPointerLock || _canvas.webkitRequestPointerLock;
             _canvas.requestPointerLock();
@@ -246,6 +253,8 @@ export class Main {
 }
 
 window.onkeydown = function(e) {
+    //Keep the browser from saving the page when saving in the editor
+    if (e.ctrlKey && (e.keyCode === 83 || e.keyCode === 89 || e.keyCode === 90)) e.preventDefault();
     Main.keyboard(e.which || e.keyCode || 0, true);
 };
 
@@ -253,6 +262,26 @@ window.onkeyup = function(e) {
     Main.keyboard(e.which || e.keyCode || 0, false);
 };
 
+//Drop a world snapshot on the page to restore it
+window.ondragover = function(e) {
+    e.preventDefault();
+};
+
+window.ondrop = function(e) {
+    e.preventDefault();
+    let file = e.dataTransfer.files[0];
+    if (!file || !main.game) return;
+    let reader = new FileReader();
+    reader.onload = () => {
+        try {
+            main.game.restoreSnapshot(new Uint8Array(reader.result as ArrayBuffer), file.name);
+        } catch (error) {
+            console.error("Could not restore snapshot: " + error);
+        }
+    };
+    reader.readAsArrayBuffer(file);
+};
+
 window.onmousedown = function(e) {
     global.mouse_keys[e.which] = true;
 };
@@ -261,4 +290,14 @@ window.onmouseup = function(e) {
     global.mouse_keys[e.which] = false;
 };
 
+window.onmousemove = function(e) {
+    global.mouse_x = e.clientX;
+    global.mouse_y = e.clientY;
+};
+
+//Right click adds disks in the editor, the browser menu stays everywhere else
+window.oncontextmenu = function(e) {
+    if (main.game && main.game.editor_mode) e.preventDefault();
+};
+
 let main = new Main();
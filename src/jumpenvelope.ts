@@ -0,0 +1,21 @@
+//The speeds a jump starts with and how fast falling speeds up
+export const JUMP_UP_SPEED = 12.0;
+export const JUMP_FORWARD_SPEED = 8.0;
+export const GRAVITY = 9.8;
+
+//Where a player jump can reach, for finding the gaps worth jumping over
+//The player keeps going forward at the same speed in the air so the jump is a parabola
+export namespace JumpEnvelope {
+    //Returns how high above where it started a jump is after going distance forward
+    export function heightAt(distance: number): number {
+        let t = distance / JUMP_FORWARD_SPEED;
+        return JUMP_UP_SPEED * t - (GRAVITY * t * t) / 2;
+    }
+
+    //Returns how far forward a jump has gone when it comes back down to height, or 0 if it never gets that high
+    export function distanceAt(height: number): number {
+        let discriminant = JUMP_UP_SPEED * JUMP_UP_SPEED - 2 * GRAVITY * height;
+        if (discriminant < 0) return 0;
+        return (JUMP_FORWARD_SPEED * (JUMP_UP_SPEED + Math.sqrt(discriminant))) / GRAVITY;
+    }
+}
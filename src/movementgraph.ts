@@ -3,6 +3,9 @@ import { Disk } from "entities/disk";
 import { vec3 } from "gl-matrix";
 import * as assert from "assert";
 import {PriorityQueue} from "typescript-collections";
+import {DiskMotions} from "./diskmotion";
+import {PathCost, PathCosts, PathSegment} from "./pathcost";
+import {JumpEnvelope} from "./jumpenvelope";
 
 const HIGH_VALUE = Number.MAX_VALUE;
 const NO_VERTEX_FOUND = -1;
@@ -48,9 +51,12 @@ class NodeSearchData {
 //The data of each node in the movement graph
 class Node {
     node_links: NodeLink[];
+    //Removed nodes keep their id so the ids in paths of other nodes stay the same, they have no links
+    removed: boolean;
 
     constructor(public node_id: number, public disk_id: number, public pos: vec3) {
         this.node_links = [];
+        this.removed = false;
     }
 }
 
@@ -65,23 +71,59 @@ function compare(a: QueueNode, b: QueueNode) {
     return 0;
 }
 
+//How an agent gets from one end of a link to the other
+export enum Link_Type {
+    WALK,
+    //Across a gap between disks that don't touch
+    JUMP
+}
+
 //The data of each edge between nodes in the movement graph
 class NodeLink {
+    //Links to moving disks are turned off while the disks don't touch
+    public enabled: boolean = true;
+
     constructor(
         public source_node_id: number,
         public dest_node_id: number,
         public disk_id: number,
-        public weight: number
+        public weight: number,
+        public type: Link_Type = Link_Type.WALK
     ) {}
 }
 
+//A link between two disks where at least one of them moves
+interface MovingLink {
+    disk_id_i: number;
+    disk_id_j: number;
+    node_id_i: number;
+    node_id_j: number;
+}
+
+let bounds_i = vec3.create();
+let bounds_j = vec3.create();
+let sample = vec3.create();
+let segment: PathSegment = { disk: null, distance: 0, length: 0, steepest: 0 };
+
+//Links are sampled about this far apart on the ground to find their slopes
+const SAMPLE_SPACING = 1.0;
+const MAX_SAMPLES = 16;
+
 //A Graph of nodes between the disk of the world.
 //Can perform pathfinding algorithms between nodes and return optimal paths
 export class MovementGraph {
     //Offset for collision checking to include disks almost touching
-    private readonly collision_offset = 0.1;
+    static readonly collision_offset = 0.1;
+    //Disks further apart in height than this aren't linked, it matches the height the player can step up
+    static readonly max_height_difference = 1.0;
+    //How far above the rim of the disk it lands on a jump has to be
+    static readonly jump_clearance = 0.5;
     private readonly node_offset = 0.7;
 
+    //The cost of moving for the agents using the graph and the lowest cost per unit of distance on any disk
+    private cost: PathCost;
+    private min_cost_rate: number;
+
     //The search data used for pathfinding
     private search_data: NodeSearchData[] = [];
 
@@ -91,6 +133,7 @@ export class MovementGraph {
     private mm_visits: number = 0;
 
     private node_link_count: number = 0;
+    private removed_node_count: number = 0;
 
     //The data after a search memorization is called
     private memorized_search_data: NodeSearchData[] = [];
@@ -107,58 +150,205 @@ export class MovementGraph {
     //The list of nodes of the graph
     private readonly node_list: Node[] = [];
 
+    //Links that need updating as the disks move and whether each node is on one of them
+    private moving_links: MovingLink[] = [];
+    private readonly moving_nodes: boolean[] = [];
+
+    //Where each disk was when it was linked as x, z and radius
+    //A disk that moves or goes away can open or block jumps over where it was
+    private readonly disk_circles: vec3[] = [];
+
     //Initilize the Node and Node Links of the movement graph using the disks data
-    constructor(disks: Disk[]) {
+    constructor(disks: Disk[], cost: PathCost = PathCosts.ring) {
         let size = disks.length;
         assert(size > 0);
 
+        this.cost = cost;
+        this.min_cost_rate = MovementGraph.getMinCostRate(disks, cost);
+
         this.node_list = [];
         this.disk_node_list = Array(...Array(size)).map(() => Array(0));
 
         this.queue_start = new PriorityQueue<QueueNode>(compare);
         this.queue_end = new PriorityQueue<QueueNode>(compare);
 
+        for (let disk of disks) this.disk_circles.push(MovementGraph.getDiskCircle(disk));
         for (let i = 0; i < size; i++) {
-            for (let j = i + 1; j < size; j++) {
-                let disk_i: Disk = disks[i];
-                let disk_j: Disk = disks[j];
-                //No collision
-                if (
-                    !Collision.circleIntersection(
-                        disk_i.position[0],
-                        disk_i.position[2],
-                        disk_i.radius + this.collision_offset,
-                        disk_j.position[0],
-                        disk_j.position[2],
-                        disk_j.radius + this.collision_offset
-                    )
-                )
-                    continue;
-
-                let position_i = this.calculateNodePosition(disk_i, disk_j);
-                let position_j = this.calculateNodePosition(disk_j, disk_i);
-
-                let node_id_i = this.addNode(position_i, i);
-                let node_id_j = this.addNode(position_j, j);
-
-                const weight_ij = this.calculateWeightBetweenDisks(disks, node_id_i, node_id_j);
-                this.addLink(i, node_id_i, j, node_id_j, weight_ij);
-
-                for (let node_id_k of this.disk_node_list[i]) {
-                    const weight_ik = this.calculateWeightSameDisk(disks, node_id_i, node_id_k);
-                    this.addLink(i, node_id_i, this.node_list[node_id_k].disk_id, node_id_k, weight_ik);
-                }
-                for (let node_id_k of this.disk_node_list[j]) {
-                    const weight_jk = this.calculateWeightSameDisk(disks, node_id_j, node_id_k);
-                    this.addLink(j, node_id_j, this.node_list[node_id_k].disk_id, node_id_k, weight_jk);
-                }
+            for (let j = i + 1; j < size; j++) this.linkDisks(disks, i, j);
+        }
+        this.updateMovingDisks(disks);
+    }
 
-                this.disk_node_list[i].push(node_id_i);
-                this.disk_node_list[j].push(node_id_j);
+    //Moves the nodes of links to moving disks and turns the links on only while the disks touch
+    //Must be called after the disks move. Returns whether any link was turned on or off
+    public updateMovingDisks(disks: Disk[]): boolean {
+        if (this.moving_links.length === 0) return false;
+
+        let toggled = false;
+
+        for (let moving_link of this.moving_links) {
+            let disk_i = disks[moving_link.disk_id_i];
+            let disk_j = disks[moving_link.disk_id_j];
+            let node_i = this.node_list[moving_link.node_id_i];
+            let node_j = this.node_list[moving_link.node_id_j];
+            vec3.copy(node_i.pos, this.calculateNodePosition(disk_i, disk_j));
+            vec3.copy(node_j.pos, this.calculateNodePosition(disk_j, disk_i));
+
+            let enabled =
+                MovementGraph.areDisksTouching(
+                    disk_i.position[0],
+                    disk_i.position[2],
+                    disk_i.radius,
+                    disk_j.position[0],
+                    disk_j.position[2],
+                    disk_j.radius
+                ) && MovementGraph.isHeightTraversable(disk_i, disk_j);
+            for (let link of node_i.node_links) {
+                if (link.dest_node_id !== node_j.node_id || link.enabled === enabled) continue;
+                link.enabled = enabled;
+                toggled = true;
             }
+            for (let link of node_j.node_links) {
+                if (link.dest_node_id !== node_i.node_id || link.enabled === enabled) continue;
+                link.enabled = enabled;
+                toggled = true;
+            }
+        }
+
+        //The weights of every link to a node that moved change
+        for (let node of this.node_list) {
+            for (let link of node.node_links) {
+                if (!this.moving_nodes[link.source_node_id] && !this.moving_nodes[link.dest_node_id]) continue;
+                link.weight = this.calculateWeight(disks, link);
+            }
+        }
+        return toggled;
+    }
+
+    //Adds the nodes and links of the disk at disk_id after it was put in the disk list there
+    //Returns the ids of nodes paths can't use any more, from jumps over the new disk
+    public addDisk(disks: Disk[], disk_id: number): Set<number> {
+        //The disks after it in the list moved up one
+        this.disk_node_list.splice(disk_id, 0, []);
+        this.disk_circles.splice(disk_id, 0, MovementGraph.getDiskCircle(disks[disk_id]));
+        this.shiftDiskIds(disk_id, 1);
+
+        for (let j = 0; j < disks.length; j++) {
+            if (j !== disk_id) this.linkDisks(disks, disk_id, j);
         }
-        this.search_data = Array.from({ length: this.node_list.length }, u => new NodeSearchData());
-        this.memorized_search_data = Array.from({ length: this.node_list.length }, u => new NodeSearchData());
+        //Jumps over it are walked over now
+        let invalidated = new Set<number>();
+        this.relinkJumpsAround(disks, this.disk_circles[disk_id], invalidated);
+
+        this.min_cost_rate = MovementGraph.getMinCostRate(disks, this.cost);
+        this.updateMovingDisks(disks);
+        return invalidated;
+    }
+
+    //Removes the nodes and links of the disk at disk_id after it was taken out of the disk list
+    //The nodes of the disks it touched that linked to it go too
+    //Returns the ids of the removed nodes, paths going through them have to be found again
+    public removeDisk(disks: Disk[], disk_id: number): Set<number> {
+        let invalidated = new Set<number>();
+        for (let node_id of this.disk_node_list[disk_id].slice()) this.unlinkNode(node_id, invalidated);
+
+        //The disks after it in the list moved down one
+        this.disk_node_list.splice(disk_id, 1);
+        let circle = this.disk_circles.splice(disk_id, 1)[0];
+        this.shiftDiskIds(disk_id + 1, -1);
+
+        //Gaps it filled may be jumped over now
+        this.relinkJumpsAround(disks, circle, invalidated);
+
+        this.min_cost_rate = MovementGraph.getMinCostRate(disks, this.cost);
+        this.updateMovingDisks(disks);
+        return invalidated;
+    }
+
+    //Updates the nodes and links of the disk at disk_id after it moved, was resized or changed terrain
+    //Nodes of disks it still touches keep their ids, links to disks it stopped touching are removed
+    //Returns the ids of the nodes that were removed or moved, paths going through them have to be found again
+    public updateDisk(disks: Disk[], disk_id: number): Set<number> {
+        let invalidated = new Set<number>();
+        for (let j = 0; j < disks.length; j++) {
+            if (j === disk_id) continue;
+            let link = this.findPairLink(disk_id, j);
+            let type = this.getPairLinkType(disks, disk_id, j);
+
+            if (link === null) {
+                if (type !== null) this.linkDisks(disks, disk_id, j);
+                continue;
+            }
+            if (type !== link.type) {
+                this.unlinkNode(link.source_node_id, invalidated);
+                if (type !== null) this.linkDisks(disks, disk_id, j);
+                continue;
+            }
+
+            let node_i = this.node_list[link.source_node_id];
+            let node_j = this.node_list[link.dest_node_id];
+            let position_i = this.calculateNodePosition(disks[disk_id], disks[j]);
+            let position_j = this.calculateNodePosition(disks[j], disks[disk_id]);
+            if (!vec3.exactEquals(position_i, node_i.pos) || !vec3.exactEquals(position_j, node_j.pos)) {
+                vec3.copy(node_i.pos, position_i);
+                vec3.copy(node_j.pos, position_j);
+                invalidated.add(node_i.node_id);
+                invalidated.add(node_j.node_id);
+            }
+            //The links of the node on the other disk change with it
+            this.reweighNode(disks, node_j.node_id);
+        }
+        for (let node_id of this.disk_node_list[disk_id]) this.reweighNode(disks, node_id);
+
+        //Jumps over where it was and where it is now may have opened or been blocked
+        let circle = this.disk_circles[disk_id];
+        this.disk_circles[disk_id] = MovementGraph.getDiskCircle(disks[disk_id]);
+        this.relinkJumpsAround(disks, circle, invalidated);
+        this.relinkJumpsAround(disks, this.disk_circles[disk_id], invalidated);
+
+        this.min_cost_rate = MovementGraph.getMinCostRate(disks, this.cost);
+        this.updateMovingDisks(disks);
+        return invalidated;
+    }
+
+    //Returns the id of the node nearest to x, z that wasn't removed, or -1 if there are none
+    public getNearestNode(x: number, z: number): number {
+        let nearest = NO_VERTEX_FOUND;
+        let nearest_distance = HIGH_VALUE;
+        for (let node of this.node_list) {
+            if (node.removed) continue;
+            let distance = Math.hypot(node.pos[0] - x, node.pos[2] - z);
+            if (distance < nearest_distance) {
+                nearest = node.node_id;
+                nearest_distance = distance;
+            }
+        }
+        return nearest;
+    }
+
+    //Changes how link weights are found and weighs every link again
+    public setCostFunction(disks: Disk[], cost: PathCost): void {
+        this.cost = cost;
+        this.min_cost_rate = MovementGraph.getMinCostRate(disks, cost);
+        for (let node of this.node_list) {
+            for (let link of node.node_links) link.weight = this.calculateWeight(disks, link);
+        }
+    }
+
+    //Returns how agents go between the nodes, or null if they aren't linked
+    public getLinkType(node_id_i: number, node_id_j: number): Link_Type | null {
+        for (let link of this.node_list[node_id_i].node_links) {
+            if (link.dest_node_id === node_id_j) return link.type;
+        }
+        return null;
+    }
+
+    //Returns true if the link between the nodes is there and turned on
+    public isLinkEnabled(node_id_i: number, node_id_j: number): boolean {
+        for (let link of this.node_list[node_id_i].node_links) {
+            if (link.dest_node_id === node_id_j) return link.enabled;
+        }
+        return false;
     }
 
     //Performs dijstra's search algorithm to find optimal path between 2 nodes
@@ -189,6 +379,7 @@ export class MovementGraph {
 
             //Look through all linked nodes and update if path is shorter
             for (let link of this.node_list[curr].node_links) {
+                if (!link.enabled) continue;
                 //If in closed set ignore because already evaluated
                 if (this.search_data[link.dest_node_id].start.visited) continue;
 
@@ -214,7 +405,7 @@ export class MovementGraph {
     }
 
     //Performs A* search algorithm to find optimal path between 2 nodes
-    //Uses the 3D distance between the nodes as the heuristic
+    //Uses the cheapest cost of the distance between the nodes as the heuristic
     public aStarSearch(node_start_id, node_end_id: number): number[] {
         this.resetSearchDataWithHeuristics(node_start_id, node_end_id);
 
@@ -242,6 +433,7 @@ export class MovementGraph {
 
             //Look through all linked nodes and update if path is shorter
             for (let link of this.node_list[curr].node_links) {
+                if (!link.enabled) continue;
                 //If in closed set ignore because already evaluated
                 if (this.search_data[link.dest_node_id].start.visited) continue;
 
@@ -267,7 +459,8 @@ export class MovementGraph {
     }
 
     //Performs double ended A* search algorithm to find optimal path between 2 nodes
-    //Uses the 3D distance between the nodes as the heuristic
+    //Uses the cheapest cost of the distance between the nodes as the heuristic
+    //The searches stop once neither queue has a node that could be on a cheaper path than the best meeting found
     public mmSearch(node_start_id, node_end_id: number): number[] {
         //Clear search data and fill heuristics
         this.resetSearchDataWithHeuristics(node_start_id, node_end_id);
@@ -278,6 +471,9 @@ export class MovementGraph {
         this.queue_end.clear();
         //Current Node index
         let curr = NO_VERTEX_FOUND;
+        //The node on the cheapest path found between the searches and the cost of that path
+        let meeting = NO_VERTEX_FOUND;
+        let meeting_cost = HIGH_VALUE;
 
         this.search_data[node_start_id].start.path_node = node_start_id;
         this.search_data[node_start_id].start.given_cost = 0;
@@ -298,6 +494,9 @@ export class MovementGraph {
             if (!this.queue_start.isEmpty()) p1 = this.queue_start.peek().priority;
             if (!this.queue_end.isEmpty()) p2 = this.queue_end.peek().priority;
 
+            //Every path left through either open list costs at least its lowest priority so the best meeting is optimal
+            if (meeting_cost <= Math.max(p1, p2)) break;
+
             let popped_from_start_queue: boolean;
             let curr_node_search_data: SearchData;
 
@@ -305,8 +504,6 @@ export class MovementGraph {
                 curr = this.queue_start.dequeue().id;
                 //We already visited this node
                 if (this.search_data[curr].start.visited) continue;
-                //Goal found if node is on opposite closed list
-                if (this.search_data[curr].end.visited) break;
 
                 curr_node_search_data = this.search_data[curr].start;
                 popped_from_start_queue = true;
@@ -314,8 +511,6 @@ export class MovementGraph {
                 curr = this.queue_end.dequeue().id;
                 //We already visited this node
                 if (this.search_data[curr].end.visited) continue;
-                //Goal found if node is on opposite closed list
-                if (this.search_data[curr].start.visited) break;
 
                 curr_node_search_data = this.search_data[curr].end;
                 popped_from_start_queue = false;
@@ -328,10 +523,14 @@ export class MovementGraph {
 
             //Look through all linked nodes and update if path is shorter
             for (let link of this.node_list[curr].node_links) {
+                if (!link.enabled) continue;
                 //Get the correct search data based on whether we are searching from start or end currently
                 let linked_node_search_data: SearchData = popped_from_start_queue
                     ? this.search_data[link.dest_node_id].start
                     : this.search_data[link.dest_node_id].end;
+                let opposite_search_data: SearchData = popped_from_start_queue
+                    ? this.search_data[link.dest_node_id].end
+                    : this.search_data[link.dest_node_id].start;
 
                 //If in closed set ignore because already evaluated
                 if (linked_node_search_data.visited) continue;
@@ -353,15 +552,24 @@ export class MovementGraph {
                         this.queue_start.enqueue(new QueueNode(link.dest_node_id, linked_node_search_data.priority));
                     else this.queue_end.enqueue(new QueueNode(link.dest_node_id, linked_node_search_data.priority));
                 }
+
+                //The other search reached the linked node too so there is a path through it
+                if (linked_node_search_data.given_cost + opposite_search_data.given_cost < meeting_cost) {
+                    meeting_cost = linked_node_search_data.given_cost + opposite_search_data.given_cost;
+                    meeting = link.dest_node_id;
+                }
             }
         }
-        //The current node is the meet in the middle node
+        //A queue ran out before the searches met so the end can't be reached
+        if (meeting === NO_VERTEX_FOUND) return [];
+
+        //The meeting node is the meet in the middle node
         //Mark that it has visited from both direction
         //It is on both Closed List 1 and 2
-        this.search_data[curr].end.visited = true;
-        this.search_data[curr].start.visited = true;
+        this.search_data[meeting].end.visited = true;
+        this.search_data[meeting].start.visited = true;
 
-        return this.getmmPath(node_start_id, curr, node_end_id);
+        return this.getmmPath(node_start_id, meeting, node_end_id);
     }
 
     //Returns the total cost given a path that was the result of a search
@@ -411,9 +619,14 @@ export class MovementGraph {
         return this.node_list;
     }
 
-    //Returns number of nodes (vertices) in the graph
+    //Returns whether the node moves with the disks, see updateMovingDisks
+    public isMovingNode(node_id: number): boolean {
+        return this.moving_nodes[node_id] === true;
+    }
+
+    //Returns number of nodes (vertices) in the graph, removed nodes aren't counted
     public getNodeCount(): number {
-        return this.node_list.length;
+        return this.node_list.length - this.removed_node_count;
     }
 
     //Returns number of node links (edges) in the graph
@@ -424,8 +637,10 @@ export class MovementGraph {
     //Helpers for Search functions
     //Builds and returns the path after a search has been performed
 
+    //The path is empty if the end couldn't be reached
     private getPath(node_start_id: number, node_end_id: number): number[] {
         let path = [];
+        if (this.search_data[node_end_id].start.path_node === NO_VERTEX_FOUND) return path;
 
         while (node_end_id != node_start_id) {
             path.unshift(node_end_id);
@@ -482,12 +697,186 @@ export class MovementGraph {
         }
     }
 
-    //Returns the heurisitic cost which 3D distance between the nodes
+    //Returns the heurisitic cost which is the distance between the nodes on the XZ plane at the lowest cost rate
+    //Every link costs at least that rate times its length on the XZ plane so this never overestimates
     private heuristicCostEstimate(link_node_id: number, node_end_id: number): number {
-        return vec3.distance(this.node_list[link_node_id].pos, this.node_list[node_end_id].pos);
+        let pos_i = this.node_list[link_node_id].pos;
+        let pos_j = this.node_list[node_end_id].pos;
+        return Math.hypot(pos_j[0] - pos_i[0], pos_j[2] - pos_i[2]) * this.min_cost_rate;
     }
 
     //Helpers to initialized Movement graph
+    //Links disk_i and disk_j with a node on each next to the other if rings can go between them
+    private linkDisks(disks: Disk[], i: number, j: number): void {
+        let disk_i: Disk = disks[i];
+        let disk_j: Disk = disks[j];
+        let type = this.getPairLinkType(disks, i, j);
+        if (type === null) return;
+
+        let position_i = this.calculateNodePosition(disk_i, disk_j);
+        let position_j = this.calculateNodePosition(disk_j, disk_i);
+
+        let node_id_i = this.addNode(position_i, i);
+        let node_id_j = this.addNode(position_j, j);
+
+        const weight_ij =
+            type === Link_Type.JUMP
+                ? this.calculateWeightJump(disks, node_id_i, node_id_j)
+                : this.calculateWeightBetweenDisks(disks, node_id_i, node_id_j);
+        this.addLink(i, node_id_i, j, node_id_j, weight_ij, type);
+
+        for (let node_id_k of this.disk_node_list[i]) {
+            const weight_ik = this.calculateWeightSameDisk(disks, node_id_i, node_id_k);
+            this.addLink(i, node_id_i, this.node_list[node_id_k].disk_id, node_id_k, weight_ik);
+        }
+        for (let node_id_k of this.disk_node_list[j]) {
+            const weight_jk = this.calculateWeightSameDisk(disks, node_id_j, node_id_k);
+            this.addLink(j, node_id_j, this.node_list[node_id_k].disk_id, node_id_k, weight_jk);
+        }
+
+        this.disk_node_list[i].push(node_id_i);
+        this.disk_node_list[j].push(node_id_j);
+
+        if (disk_i.motion !== null || disk_j.motion !== null) {
+            this.moving_links.push({ disk_id_i: i, disk_id_j: j, node_id_i: node_id_i, node_id_j: node_id_j });
+            this.moving_nodes[node_id_i] = this.moving_nodes[node_id_j] = true;
+        }
+    }
+
+    //Removes a node and the node on the other disk it links to, the two only exist for each other
+    private unlinkNode(node_id: number, invalidated: Set<number>): void {
+        let node = this.node_list[node_id];
+        let between = node.node_links.find(link => link.disk_id !== node.disk_id);
+        if (between) this.removeNode(between.dest_node_id, invalidated);
+        this.removeNode(node_id, invalidated);
+        this.moving_links = this.moving_links.filter(
+            moving_link => moving_link.node_id_i !== node_id && moving_link.node_id_j !== node_id
+        );
+    }
+
+    //Removes every link of a node and marks it removed
+    private removeNode(node_id: number, invalidated: Set<number>): void {
+        let node = this.node_list[node_id];
+        for (let link of node.node_links) {
+            let dest = this.node_list[link.dest_node_id];
+            dest.node_links = dest.node_links.filter(dest_link => dest_link.dest_node_id !== node_id);
+            this.node_link_count--;
+        }
+        node.node_links = [];
+        node.removed = true;
+        this.moving_nodes[node_id] = false;
+
+        let disk_nodes = this.disk_node_list[node.disk_id];
+        disk_nodes.splice(disk_nodes.indexOf(node_id), 1);
+        this.removed_node_count++;
+        invalidated.add(node_id);
+    }
+
+    //Adds amount to every disk id from first_disk_id on after disks were put in or taken out of the list
+    private shiftDiskIds(first_disk_id: number, amount: number): void {
+        for (let node of this.node_list) {
+            if (node.disk_id >= first_disk_id) node.disk_id += amount;
+            for (let link of node.node_links) if (link.disk_id >= first_disk_id) link.disk_id += amount;
+        }
+        for (let moving_link of this.moving_links) {
+            if (moving_link.disk_id_i >= first_disk_id) moving_link.disk_id_i += amount;
+            if (moving_link.disk_id_j >= first_disk_id) moving_link.disk_id_j += amount;
+        }
+    }
+
+    //Returns the link from the node on disk_id to the node on other_disk_id, or null if the disks aren't linked
+    private findPairLink(disk_id: number, other_disk_id: number): NodeLink | null {
+        for (let node_id of this.disk_node_list[disk_id]) {
+            for (let link of this.node_list[node_id].node_links) {
+                if (link.disk_id === other_disk_id) return link;
+            }
+        }
+        return null;
+    }
+
+    //Returns how the disks are linked, or null if agents can't go between them
+    private getPairLinkType(disks: Disk[], i: number, j: number): Link_Type | null {
+        if (MovementGraph.shouldLinkDisks(disks[i], disks[j])) return Link_Type.WALK;
+        if (this.canJumpBetween(disks, i, j)) return Link_Type.JUMP;
+        return null;
+    }
+
+    //Returns true if the player could jump between the disks both ways
+    //The disks can't touch and no other disk can be in the gap, that gap is walked over instead
+    private canJumpBetween(disks: Disk[], i: number, j: number): boolean {
+        let disk_i = disks[i];
+        let disk_j = disks[j];
+        if (disk_i.motion !== null || disk_j.motion !== null) return false;
+
+        let dx = disk_j.position[0] - disk_i.position[0];
+        let dz = disk_j.position[2] - disk_i.position[2];
+        let center_distance = Math.hypot(dx, dz);
+        let gap = center_distance - disk_i.radius - disk_j.radius;
+        if (gap <= MovementGraph.collision_offset * 2) return false;
+
+        //The jump starts from the node and has to clear the rim of the other disk
+        let position_i = this.calculateNodePosition(disk_i, disk_j);
+        let position_j = this.calculateNodePosition(disk_j, disk_i);
+        let height = Math.abs(
+            disk_j.getHeightAtPosition(position_j[0], position_j[2]) -
+                disk_i.getHeightAtPosition(position_i[0], position_i[2])
+        );
+        if (JumpEnvelope.heightAt(gap + this.node_offset) < height + MovementGraph.jump_clearance) return false;
+
+        //Look for disks in the gap between the rims
+        let start_x = disk_i.position[0] + (dx / center_distance) * disk_i.radius;
+        let start_z = disk_i.position[2] + (dz / center_distance) * disk_i.radius;
+        for (let [k, disk_k] of disks.entries()) {
+            if (k === i || k === j || disk_k.motion !== null) continue;
+            let kx = disk_k.position[0] - start_x;
+            let kz = disk_k.position[2] - start_z;
+            let t = Math.min(Math.max((kx * dx + kz * dz) / (center_distance * gap), 0), 1);
+            let along = t * gap;
+            if (Math.hypot(kx - (dx / center_distance) * along, kz - (dz / center_distance) * along) < disk_k.radius)
+                return false;
+        }
+        return true;
+    }
+
+    //Checks the jumps between disks near the circle again after a disk was added, removed or moved there
+    private relinkJumpsAround(disks: Disk[], circle: vec3, invalidated: Set<number>): void {
+        //Only disks a jump over the circle could start from
+        let reach = circle[2] + JumpEnvelope.distanceAt(MovementGraph.jump_clearance);
+        let near: number[] = [];
+        for (let [k, disk] of disks.entries()) {
+            let distance = Math.hypot(disk.position[0] - circle[0], disk.position[2] - circle[1]);
+            if (distance - disk.radius <= reach) near.push(k);
+        }
+
+        for (let a = 0; a < near.length; a++) {
+            for (let b = a + 1; b < near.length; b++) {
+                let link = this.findPairLink(near[a], near[b]);
+                //Walking between disks doesn't depend on the disks around them
+                if (link !== null && link.type === Link_Type.WALK) continue;
+
+                let type = this.getPairLinkType(disks, near[a], near[b]);
+                if (link === null ? type === null : type === link.type) continue;
+                if (link !== null) this.unlinkNode(link.source_node_id, invalidated);
+                if (type !== null) this.linkDisks(disks, near[a], near[b]);
+            }
+        }
+    }
+
+    //Returns the circle the disk covers as x, z and radius
+    private static getDiskCircle(disk: Disk): vec3 {
+        return vec3.fromValues(disk.position[0], disk.position[2], disk.radius);
+    }
+
+    //Weighs every link of a node again, in both directions
+    private reweighNode(disks: Disk[], node_id: number): void {
+        for (let link of this.node_list[node_id].node_links) {
+            link.weight = this.calculateWeight(disks, link);
+            for (let back of this.node_list[link.dest_node_id].node_links) {
+                if (back.dest_node_id === node_id) back.weight = link.weight;
+            }
+        }
+    }
+
     //Adds a node at a position for a disk
     private addNode(position: vec3, disk_index: number): number {
         let id = this.node_list.length;
@@ -496,45 +885,145 @@ export class MovementGraph {
         data.node_id = id;
         data.disk_id = disk_index;
         data.node_links = [];
+        data.removed = false;
         this.node_list.push(data);
+        this.search_data.push(new NodeSearchData());
+        this.memorized_search_data.push(new NodeSearchData());
         return id;
     }
 
     //Adds the link between two nodes with a given weight
     //A link is added on both nodes to the other node
-    private addLink(disk_id_i: number, node_id_i: number, disk_id_j: number, node_id_j: number, weight: number): void {
-        this.node_list[node_id_i].node_links.push(new NodeLink(node_id_i, node_id_j, disk_id_j, weight));
-        this.node_list[node_id_j].node_links.push(new NodeLink(node_id_j, node_id_i, disk_id_i, weight));
+    private addLink(
+        disk_id_i: number,
+        node_id_i: number,
+        disk_id_j: number,
+        node_id_j: number,
+        weight: number,
+        type: Link_Type = Link_Type.WALK
+    ): void {
+        this.node_list[node_id_i].node_links.push(new NodeLink(node_id_i, node_id_j, disk_id_j, weight, type));
+        this.node_list[node_id_j].node_links.push(new NodeLink(node_id_j, node_id_i, disk_id_i, weight, type));
 
         this.node_link_count++;
     }
 
-    //Returns the cost factor based on the disk type
-    static getCostFactor(disk: Disk): number {
-        return 1.0 / disk.getSpeedFactor();
+    //Returns true if two disks are close enough to be linked in the graph
+    static areDisksTouching(x1: number, z1: number, r1: number, x2: number, z2: number, r2: number): boolean {
+        return Collision.circleIntersection(
+            x1,
+            z1,
+            r1 + MovementGraph.collision_offset,
+            x2,
+            z2,
+            r2 + MovementGraph.collision_offset
+        );
+    }
+
+    //Returns true if the disks get a link between them
+    //Moving disks are linked if they ever touch, updateMovingDisks turns the link on while they do
+    static shouldLinkDisks(disk_i: Disk, disk_j: Disk): boolean {
+        if (disk_i.motion !== null || disk_j.motion !== null) return MovementGraph.canDisksTouch(disk_i, disk_j);
+        return (
+            MovementGraph.areDisksTouching(
+                disk_i.position[0],
+                disk_i.position[2],
+                disk_i.radius,
+                disk_j.position[0],
+                disk_j.position[2],
+                disk_j.radius
+            ) && MovementGraph.isHeightTraversable(disk_i, disk_j)
+        );
+    }
+
+    //Returns true if the disks could touch somewhere along their motions
+    static canDisksTouch(disk_i: Disk, disk_j: Disk): boolean {
+        let reach_i = disk_i.motion ? DiskMotions.bounds(bounds_i, disk_i.motion, disk_i.origin) : 0;
+        let reach_j = disk_j.motion ? DiskMotions.bounds(bounds_j, disk_j.motion, disk_j.origin) : 0;
+        if (!disk_i.motion) vec3.copy(bounds_i, disk_i.origin);
+        if (!disk_j.motion) vec3.copy(bounds_j, disk_j.origin);
+        return MovementGraph.areDisksTouching(
+            bounds_i[0],
+            bounds_i[2],
+            disk_i.radius + reach_i,
+            bounds_j[0],
+            bounds_j[2],
+            disk_j.radius + reach_j
+        );
+    }
+
+    //Returns true if rings and the player can move between the tops of the disks
+    static isHeightTraversable(disk_i: Disk, disk_j: Disk): boolean {
+        return Math.abs(disk_i.position[1] - disk_j.position[1]) <= MovementGraph.max_height_difference;
+    }
+
+    //Returns the lowest cost per unit of distance of the cost function on any of the disks
+    static getMinCostRate(disks: Disk[], cost: PathCost): number {
+        let rate = HIGH_VALUE;
+        for (let disk of disks) rate = Math.min(rate, cost.minCostRate(disk));
+        return rate;
     }
 
     //Returns the 3D position a node should have on disk_i if it is adjacent to disk_j
     //Will be at the disk_i radius - 0.7 in the direction of disk_j
     private calculateNodePosition(disk_i: Disk, disk_j: Disk): vec3 {
         let dir = vec3.sub(vec3.create(), disk_j.position, disk_i.position);
+        //Only the direction on the ground, the node stays on top of disk_i
+        dir[1] = 0;
         vec3.normalize(dir, dir);
         let pos = vec3.scaleAndAdd(vec3.create(), disk_i.position, dir, disk_i.radius - this.node_offset);
         return pos;
     }
 
+    //Returns the weight of a link between nodes on the same disk or on different disks
+    private calculateWeight(disks: Disk[], link: NodeLink): number {
+        if (link.type === Link_Type.JUMP)
+            return this.calculateWeightJump(disks, link.source_node_id, link.dest_node_id);
+        if (this.node_list[link.source_node_id].disk_id === link.disk_id)
+            return this.calculateWeightSameDisk(disks, link.source_node_id, link.dest_node_id);
+        return this.calculateWeightBetweenDisks(disks, link.source_node_id, link.dest_node_id);
+    }
+
     //Returns the weight calculated between two nodes on different disks
+    //Each disk has the half of the link on its side and half of the step between the disk heights
     private calculateWeightBetweenDisks(disks: Disk[], node_id_i: number, node_id_j: number): number {
         let disk_i = disks[this.node_list[node_id_i].disk_id];
         let disk_j = disks[this.node_list[node_id_j].disk_id];
-
-        let distance = vec3.distance(this.node_list[node_id_i].pos, this.node_list[node_id_j].pos);
-
-        let weight = distance * ((MovementGraph.getCostFactor(disk_i) + MovementGraph.getCostFactor(disk_j)) / 2.0);
+        let pos_i = this.node_list[node_id_i].pos;
+        let pos_j = this.node_list[node_id_j].pos;
+
+        let distance = Math.hypot(pos_j[0] - pos_i[0], pos_j[2] - pos_i[2]) / 2;
+        let mid_x = (pos_i[0] + pos_j[0]) / 2;
+        let mid_z = (pos_i[2] + pos_j[2]) / 2;
+        let step = Math.abs(disk_j.getHeightAtPosition(mid_x, mid_z) - disk_i.getHeightAtPosition(mid_x, mid_z));
+
+        this.measureSegment(disk_i, distance, (out, t) =>
+            vec3.set(out, pos_i[0] + (mid_x - pos_i[0]) * t, 0, pos_i[2] + (mid_z - pos_i[2]) * t)
+        );
+        segment.length += step / 2;
+        let weight = this.cost.segmentCost(segment);
+
+        this.measureSegment(disk_j, distance, (out, t) =>
+            vec3.set(out, mid_x + (pos_j[0] - mid_x) * t, 0, mid_z + (pos_j[2] - mid_z) * t)
+        );
+        segment.length += step / 2;
+        weight += this.cost.segmentCost(segment);
         return weight;
     }
 
-    //Returns the weight calculated between to nodes on different disks
+    //Returns the weight of a jump between two nodes on different disks
+    private calculateWeightJump(disks: Disk[], node_id_i: number, node_id_j: number): number {
+        let pos_i = this.node_list[node_id_i].pos;
+        let pos_j = this.node_list[node_id_j].pos;
+        return this.cost.jumpCost(
+            disks[this.node_list[node_id_i].disk_id],
+            disks[this.node_list[node_id_j].disk_id],
+            Math.hypot(pos_j[0] - pos_i[0], pos_j[2] - pos_i[2])
+        );
+    }
+
+    //Returns the weight calculated between two nodes on the same disk
+    //The link goes around the disk the shorter way
     private calculateWeightSameDisk(disks: Disk[], node_id_i: number, node_id_j: number): number {
         let disk = disks[this.node_list[node_id_i].disk_id];
 
@@ -543,14 +1032,45 @@ export class MovementGraph {
 
         assert(node_i.disk_id === node_j.disk_id);
 
-        let center = vec3.clone(disk.position);
-        let di = vec3.sub(vec3.create(), node_i.pos, center);
-        let dj = vec3.sub(vec3.create(), node_j.pos, center);
-
-        let angle = vec3.angle(di, dj);
+        let center = disk.position;
+        let angle_i = Math.atan2(node_i.pos[2] - center[2], node_i.pos[0] - center[0]);
+        let angle_j = Math.atan2(node_j.pos[2] - center[2], node_j.pos[0] - center[0]);
+        let angle = angle_j - angle_i;
+        if (angle > Math.PI) angle -= Math.PI * 2;
+        else if (angle < -Math.PI) angle += Math.PI * 2;
+
+        let radius = disk.radius - this.node_offset;
+        this.measureSegment(disk, Math.abs(angle) * radius, (out, t) =>
+            vec3.set(
+                out,
+                center[0] + Math.cos(angle_i + angle * t) * radius,
+                0,
+                center[2] + Math.sin(angle_i + angle * t) * radius
+            )
+        );
+        return this.cost.segmentCost(segment);
+    }
 
-        let arc_length = angle * (disk.radius - this.node_offset);
-        let weight = arc_length * MovementGraph.getCostFactor(disk);
-        return weight;
+    //Fills in segment for the stretch of ground on disk that point traces as t goes from 0 to 1
+    //The heights are sampled along the way to find how long and steep it is
+    private measureSegment(disk: Disk, distance: number, point: (out: vec3, t: number) => vec3): void {
+        let samples = Math.min(Math.max(Math.ceil(distance / SAMPLE_SPACING), 1), MAX_SAMPLES);
+        let run = distance / samples;
+
+        segment.disk = disk;
+        segment.distance = distance;
+        segment.length = 0;
+        segment.steepest = 0;
+
+        point(sample, 0);
+        let height = disk.getHeightAtPosition(sample[0], sample[2]);
+        for (let k = 1; k <= samples; k++) {
+            point(sample, k / samples);
+            let next_height = disk.getHeightAtPosition(sample[0], sample[2]);
+            let rise = Math.abs(next_height - height);
+            segment.length += Math.sqrt(run * run + rise * rise);
+            if (run > 0) segment.steepest = Math.max(segment.steepest, rise / run);
+            height = next_height;
+        }
     }
 }
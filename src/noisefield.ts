@@ -1,3 +1,5 @@
+import {Random} from "./helpers/random";
+
 interface Vec2 {
     x: number;
     y: number;
@@ -36,6 +38,25 @@ export class Noisefield {
         this.SEED_Q2 = q2;
     }
 
+    //Makes a noisefield with all of its seeds taken from the generator
+    public static fromRandom(grid_size: number, amplitude: number, random: Random): Noisefield {
+        return new Noisefield(
+            grid_size,
+            amplitude,
+            random.randi(0xffffffff),
+            random.randi(0xffffffff),
+            random.randi(0xffffffff),
+            random.randi(0xffffffff),
+            random.randi(0xffffffff),
+            random.randi(0xffffffff),
+            random.randi(0xffffffff)
+        );
+    }
+
+    public static fromSeed(grid_size: number, amplitude: number, seed: number): Noisefield {
+        return Noisefield.fromRandom(grid_size, amplitude, new Random(seed));
+    }
+
     private pseudorandom(x: number, y: number) {
         let n = this.SEED_X1 * x + this.SEED_Y1 * y;
         let quad_term = this.SEED_Q2 * n * n + this.SEED_Q1 * n + this.SEED_Q0;
@@ -99,3 +120,207 @@ export class Noisefield {
         return a.x * b.x + a.y * b.y;
     }
 }
+
+//Unit gradients of simplex noise
+const GRADIENTS = [[1, 1], [-1, 1], [1, -1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]];
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+//2D simplex noise in about [-1, 1] with features about 1 unit apart
+export class SimplexNoise {
+    private readonly perm: Uint8Array;
+
+    constructor(seed: number) {
+        let random = new Random(seed);
+        let p = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) p[i] = i;
+        for (let i = 255; i > 0; i--) {
+            let j = random.randi(i + 1);
+            let t = p[i];
+            p[i] = p[j];
+            p[j] = t;
+        }
+        this.perm = new Uint8Array(512);
+        for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+    }
+
+    public noise(x: number, y: number): number {
+        //Skew into the simplex grid to find which triangle the point is in
+        let s = (x + y) * F2;
+        let i = Math.floor(x + s);
+        let j = Math.floor(y + s);
+        let t = (i + j) * G2;
+        let x0 = x - (i - t);
+        let y0 = y - (j - t);
+
+        let i1 = x0 > y0 ? 1 : 0;
+        let j1 = x0 > y0 ? 0 : 1;
+
+        let x1 = x0 - i1 + G2;
+        let y1 = y0 - j1 + G2;
+        let x2 = x0 - 1 + 2 * G2;
+        let y2 = y0 - 1 + 2 * G2;
+
+        let ii = i & 255;
+        let jj = j & 255;
+
+        return (
+            70 *
+            (this.corner(this.perm[ii + this.perm[jj]], x0, y0) +
+                this.corner(this.perm[ii + i1 + this.perm[jj + j1]], x1, y1) +
+                this.corner(this.perm[ii + 1 + this.perm[jj + 1]], x2, y2))
+        );
+    }
+
+    private corner(hash: number, x: number, y: number): number {
+        let t = 0.5 - x * x - y * y;
+        if (t < 0) return 0;
+        let g = GRADIENTS[hash & 7];
+        t *= t;
+        return t * t * (g[0] * x + g[1] * y);
+    }
+}
+
+export type NoiseFunction = (x: number, y: number) => number;
+
+//How to build a noise function. Everything is seeded from the one seed it is made with
+export interface NoiseRecipe {
+    type: "perlin" | "simplex";
+    //Size of the features of the first octave
+    scale: number;
+    amplitude: number;
+    //How the octaves are combined, only one octave is used if it is left off
+    fractal?: "fbm" | "ridged";
+    octaves?: number;
+    //Frequency multiplier from one octave to the next
+    lacunarity?: number;
+    //Amplitude multiplier from one octave to the next
+    gain?: number;
+    //Moves the sample position by another noise of this scale, up to strength units away
+    warp?: { scale: number; strength: number };
+}
+
+//The octave streams use the octave index so the warp streams start after the most octaves anyone should need
+const WARP_STREAM = 1000;
+
+//Building blocks for combining noise
+export namespace Noise {
+    //Gradient noise in about [-1, 1] with features 1 unit apart
+    export function perlin(seed: number): NoiseFunction {
+        let field = Noisefield.fromSeed(1, 1, seed);
+        return (x, y) => field.perlineNoise(x, y) * Math.SQRT2;
+    }
+
+    export function simplex(seed: number): NoiseFunction {
+        let field = new SimplexNoise(seed);
+        return (x, y) => field.noise(x, y);
+    }
+
+    //Fractal Brownian motion. Octaves of finer and fainter noise added together
+    //The result is scaled back to about [-1, 1]
+    export function fbm(
+        octave: (index: number) => NoiseFunction,
+        octaves: number,
+        lacunarity: number,
+        gain: number
+    ): NoiseFunction {
+        let layers = makeOctaves(octave, octaves);
+        let total = amplitudeSum(octaves, gain);
+        return (x, y) => {
+            let sum = 0;
+            let frequency = 1;
+            let amplitude = 1;
+            for (let layer of layers) {
+                sum += layer(x * frequency, y * frequency) * amplitude;
+                frequency *= lacunarity;
+                amplitude *= gain;
+            }
+            return sum / total;
+        };
+    }
+
+    //Ridged multifractal. Sharp ridges where the noise crosses zero, with detail
+    //concentrated on the ridges. Scaled to about [-1, 1]
+    export function ridged(
+        octave: (index: number) => NoiseFunction,
+        octaves: number,
+        lacunarity: number,
+        gain: number
+    ): NoiseFunction {
+        let layers = makeOctaves(octave, octaves);
+        let total = amplitudeSum(octaves, gain);
+        return (x, y) => {
+            let sum = 0;
+            let frequency = 1;
+            let amplitude = 1;
+            let weight = 1;
+            for (let layer of layers) {
+                let signal = 1 - Math.abs(layer(x * frequency, y * frequency));
+                signal *= signal * weight;
+                //Higher ridges get more detail from the next octave
+                weight = Math.min(Math.max(signal * 2, 0), 1);
+                sum += signal * amplitude;
+                frequency *= lacunarity;
+                amplitude *= gain;
+            }
+            return (sum / total) * 2 - 1;
+        };
+    }
+
+    //Samples noise at a position moved by two other noises
+    export function warp(
+        noise: NoiseFunction,
+        warp_x: NoiseFunction,
+        warp_y: NoiseFunction,
+        strength: number
+    ): NoiseFunction {
+        return (x, y) => noise(x + warp_x(x, y) * strength, y + warp_y(x, y) * strength);
+    }
+
+    export function fromRecipe(recipe: NoiseRecipe, seed: number): NoiseFunction {
+        let base: (seed: number) => NoiseFunction;
+        if (recipe.type === "perlin") base = perlin;
+        else if (recipe.type === "simplex") base = simplex;
+        else throw "Unknown noise type: " + recipe.type;
+        if (!(recipe.scale > 0)) throw "Noise scale must be positive";
+
+        let octave = (index: number) => base(Random.deriveSeed(seed, index));
+        let octaves = recipe.octaves !== undefined ? recipe.octaves : 1;
+        let lacunarity = recipe.lacunarity !== undefined ? recipe.lacunarity : 2.0;
+        let gain = recipe.gain !== undefined ? recipe.gain : 0.5;
+
+        let noise: NoiseFunction;
+        if (recipe.fractal === undefined) noise = octave(0);
+        else if (recipe.fractal === "fbm") noise = fbm(octave, octaves, lacunarity, gain);
+        else if (recipe.fractal === "ridged") noise = ridged(octave, octaves, lacunarity, gain);
+        else throw "Unknown fractal: " + recipe.fractal;
+
+        let scale = recipe.scale;
+        let amplitude = recipe.amplitude;
+        let scaled: NoiseFunction = (x, y) => noise(x / scale, y / scale) * amplitude;
+        if (!recipe.warp) return scaled;
+
+        let warp_scale = recipe.warp.scale;
+        let warp_x = base(Random.deriveSeed(seed, WARP_STREAM));
+        let warp_y = base(Random.deriveSeed(seed, WARP_STREAM + 1));
+        return warp(
+            scaled,
+            (x, y) => warp_x(x / warp_scale, y / warp_scale),
+            (x, y) => warp_y(x / warp_scale, y / warp_scale),
+            recipe.warp.strength
+        );
+    }
+
+    function makeOctaves(octave: (index: number) => NoiseFunction, octaves: number): NoiseFunction[] {
+        if (!(octaves >= 1)) throw "Noise needs at least one octave";
+        let layers = [];
+        for (let i = 0; i < octaves; i++) layers.push(octave(i));
+        return layers;
+    }
+
+    function amplitudeSum(octaves: number, gain: number): number {
+        let sum = 0;
+        for (let i = 0, amplitude = 1; i < octaves; i++, amplitude *= gain) sum += amplitude;
+        return sum;
+    }
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as path from "path";
+import {World} from "./entities/world";
+import {MapFile, WorldDescription} from "./worldfile";
+import {HeightMapImages} from "./heightmapimages";
+import {MovementGraph} from "./movementgraph";
+import {PathCosts} from "./pathcost";
+import {Random} from "./helpers/random";
+
+//Runs random searches on the movement graph of every bundled map with Dijkstra, A* and MM
+//Checks that all three find paths of the same cost and prints the nodes they visit and the time they take
+//Build and run it in Node with: npm run benchmark -- [queries per map] [seed]
+
+const MAP_DIRECTORY = path.resolve(__dirname, "../assets/worlds/maps");
+const HEIGHT_IMAGE_DIRECTORY = path.resolve(__dirname, "../assets/worlds/heightmaps");
+const DEFAULT_QUERIES = 2000;
+const DEFAULT_SEED = 409;
+//Costs closer than this relative to their size are equal, the searches add up the same weights in different orders
+const COST_TOLERANCE = 1e-9;
+
+interface AlgorithmStats {
+    name: string;
+    mean_visits: number;
+    max_visits: number;
+    mean_time_us: number;
+    max_time_us: number;
+    total_time_ms: number;
+}
+
+interface MapStats {
+    map: string;
+    disks: number;
+    nodes: number;
+    links: number;
+    queries: number;
+    //Queries whose end can't be reached from the start, every algorithm has to agree on it
+    unreachable: number;
+    //Queries where the algorithms returned paths of different costs
+    mismatches: number;
+    mean_path_cost: number;
+    max_path_cost: number;
+    algorithms: AlgorithmStats[];
+}
+
+//The searches compared, each returns the path from start to end without the start node
+const ALGORITHMS: { name: string; search: (graph: MovementGraph, start: number, end: number) => number[] }[] = [
+    { name: "Dijkstra", search: (graph, start, end) => graph.dijkstraSearch(start, end) },
+    { name: "A*", search: (graph, start, end) => graph.aStarSearch(start, end) },
+    { name: "MM", search: (graph, start, end) => graph.mmSearch(start, end) }
+];
+
+let args = process.argv.slice(2);
+let queries = args.length > 0 ? Number(args[0]) : DEFAULT_QUERIES;
+let seed = args.length > 1 ? Number(args[1]) : DEFAULT_SEED;
+if (!Number.isInteger(queries) || queries <= 0) throw "Invalid query count '" + args[0] + "'";
+if (!Number.isInteger(seed) || seed < 0) throw "Invalid seed '" + args[1] + "'";
+
+let map_files = fs
+    .readdirSync(MAP_DIRECTORY)
+    .filter(name => /\.(txt|json)$/i.test(name))
+    .sort();
+
+let results = map_files.map(name =>
+    benchmarkMap({ name: name, data: fs.readFileSync(path.join(MAP_DIRECTORY, name), "utf8") })
+);
+
+console.log();
+printTable(results);
+console.log();
+console.log(JSON.stringify({ queries_per_map: queries, seed: seed, maps: results }, null, 4));
+
+let mismatches = results.reduce((sum, result) => sum + result.mismatches, 0);
+if (mismatches > 0) {
+    console.error(mismatches + " queries found paths of different costs");
+    process.exitCode = 1;
+}
+
+//Builds the movement graph of a map and runs every algorithm on the same random queries
+function benchmarkMap(map: MapFile): MapStats {
+    let description = World.parseMap(map);
+    loadHeightImages(description);
+
+    //Maps without a seed get the benchmark seed so their heightmaps and costs are the same every run
+    let world = new World(null, map, description.seed === null ? seed : null);
+    let graph = new MovementGraph(world.disks, PathCosts.ring);
+    let node_count = graph.getNodeCount();
+
+    let visits = ALGORITHMS.map(() => [] as number[]);
+    let times = ALGORITHMS.map(() => [] as number[]);
+    let costs: number[] = [];
+    let unreachable = 0;
+    let mismatches = 0;
+
+    //A graph with one node has nowhere to go
+    let query_count = node_count < 2 ? 0 : queries;
+    let random = new Random(seed);
+    for (let q = 0; q < query_count; q++) {
+        let start = random.randi(node_count);
+        let end = random.randi(node_count);
+        while (end === start) end = random.randi(node_count);
+
+        let paths = ALGORITHMS.map((algorithm, a) => {
+            let time = process.hrtime();
+            let found = algorithm.search(graph, start, end);
+            let elapsed = process.hrtime(time);
+            times[a].push(elapsed[0] * 1e6 + elapsed[1] / 1e3);
+            return found;
+        });
+
+        //Each algorithm only resets its own visit counter so one memorization has all three
+        graph.memorizeLastSearch();
+        visits[0].push(graph.getMemorizedDijsktraVisits());
+        visits[1].push(graph.getMemorized_a_star_visits());
+        visits[2].push(graph.getMemorizedmmVisits());
+
+        let path_costs = paths.map(found => graph.getPathCost([start, ...found]));
+        let reached = paths.map(found => found.length > 0);
+        if (reached.every(r => !r)) {
+            unreachable++;
+            continue;
+        }
+        if (
+            reached.some(r => !r) ||
+            path_costs.some(cost => Math.abs(cost - path_costs[0]) > COST_TOLERANCE * Math.max(path_costs[0], 1))
+        ) {
+            mismatches++;
+            continue;
+        }
+        costs.push(path_costs[0]);
+    }
+
+    console.log(map.name + ": " + query_count + " queries on " + node_count + " nodes");
+    return {
+        map: map.name,
+        disks: world.disks.length,
+        nodes: node_count,
+        links: graph.getNodeLinkCount(),
+        queries: query_count,
+        unreachable: unreachable,
+        mismatches: mismatches,
+        mean_path_cost: mean(costs),
+        max_path_cost: max(costs),
+        algorithms: ALGORITHMS.map((algorithm, a) => ({
+            name: algorithm.name,
+            mean_visits: mean(visits[a]),
+            max_visits: max(visits[a]),
+            mean_time_us: mean(times[a]),
+            max_time_us: max(times[a]),
+            total_time_ms: times[a].reduce((sum, time) => sum + time, 0) / 1000
+        }))
+    };
+}
+
+//Reads the heightmap images the disks of the world use from disk instead of downloading them
+function loadHeightImages(description: WorldDescription): void {
+    for (let disk of description.disks) {
+        if (!disk.height_image || HeightMapImages.has(disk.height_image.file)) continue;
+        let file = disk.height_image.file;
+        HeightMapImages.load(file, new Uint8Array(fs.readFileSync(path.join(HEIGHT_IMAGE_DIRECTORY, file))));
+    }
+}
+
+//Prints a row per map and algorithm with the columns lined up
+function printTable(stats: MapStats[]): void {
+    let rows: string[][] = [
+        [
+            "Map",
+            "Nodes",
+            "Links",
+            "Queries",
+            "Unreached",
+            "Mismatch",
+            "Mean cost",
+            "Algorithm",
+            "Mean visits",
+            "Max visits",
+            "Mean us",
+            "Max us",
+            "Total ms"
+        ]
+    ];
+    for (let map of stats) {
+        for (let [a, algorithm] of map.algorithms.entries()) {
+            let first = a === 0;
+            rows.push([
+                first ? map.map : "",
+                first ? String(map.nodes) : "",
+                first ? String(map.links) : "",
+                first ? String(map.queries) : "",
+                first ? String(map.unreachable) : "",
+                first ? String(map.mismatches) : "",
+                first ? map.mean_path_cost.toFixed(2) : "",
+                algorithm.name,
+                algorithm.mean_visits.toFixed(1),
+                String(algorithm.max_visits),
+                algorithm.mean_time_us.toFixed(1),
+                algorithm.max_time_us.toFixed(1),
+                algorithm.total_time_ms.toFixed(1)
+            ]);
+        }
+    }
+
+    let widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    for (let [r, row] of rows.entries()) {
+        //Names are left aligned and numbers right aligned
+        let cells = row.map((cell, column) =>
+            column === 0 || column === 7 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+        );
+        console.log(cells.join("  "));
+        if (r === 0) console.log(widths.map(width => "-".repeat(width)).join("  "));
+    }
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function max(values: number[]): number {
+    return values.reduce((a, b) => Math.max(a, b), 0);
+}
@@ -0,0 +1,68 @@
+import {Disk} from "./entities/disk";
+import {Terrain_Effect} from "./terrain";
+
+//A stretch of a movement graph link that lies on one disk
+export interface PathSegment {
+    disk: Disk;
+    //Length of the stretch on the XZ plane
+    distance: number;
+    //Length of the stretch along the ground, going over the bumps of the heightmap
+    length: number;
+    //The steepest rise over run along the stretch, uphill or downhill
+    steepest: number;
+}
+
+//How costly moving along the movement graph is for one type of agent
+export interface PathCost {
+    //Returns the cost of moving along the segment, as the time it takes at a speed of 1
+    segmentCost(segment: PathSegment): number;
+    //Returns the cost of jumping distance on the XZ plane from one disk to another
+    //It can't go under the lower of the disks' minCostRate times distance
+    jumpCost(from: Disk, to: Disk, distance: number): number;
+    //Returns a cost per unit of distance on the XZ plane no segment on the disk goes under
+    //The A* heuristic uses the lowest one in the graph so it never overestimates
+    minCostRate(disk: Disk): number;
+}
+
+//Rings can cross lava but should go around it when they can
+const LAVA_COST_FACTOR = 10.0;
+//Extra cost per unit of slope steeper than the terrain holds, rings slip back on them
+const STEEP_COST_FACTOR = 2.0;
+//Jumps cost more than walking as far so rings only jump when going around is much longer
+const JUMP_COST_FACTOR = 1.5;
+
+//Cost functions for the types of agents that find their way with the movement graph
+export namespace PathCosts {
+    //Rings move at their speed times the speed factor of the terrain under them
+    export const ring: PathCost = {
+        segmentCost(segment: PathSegment): number {
+            let steep = Math.max(segment.steepest - segment.disk.getSlopeFactor(), 0);
+            return segment.length * ringCostRate(segment.disk) * (1 + steep * STEEP_COST_FACTOR);
+        },
+        jumpCost(from: Disk, to: Disk, distance: number): number {
+            return distance * ((ringCostRate(from) + ringCostRate(to)) / 2) * JUMP_COST_FACTOR;
+        },
+        minCostRate(disk: Disk): number {
+            return ringCostRate(disk);
+        }
+    };
+
+    //The shortest route on the ground whatever the terrain is
+    export const distance: PathCost = {
+        segmentCost(segment: PathSegment): number {
+            return segment.distance;
+        },
+        jumpCost(from: Disk, to: Disk, distance: number): number {
+            return distance;
+        },
+        minCostRate(disk: Disk): number {
+            return 1.0;
+        }
+    };
+
+    function ringCostRate(disk: Disk): number {
+        let rate = 1.0 / disk.getSpeedFactor();
+        if (disk.getEffect() === Terrain_Effect.LAVA) rate *= LAVA_COST_FACTOR;
+        return rate;
+    }
+}
@@ -0,0 +1,173 @@
+import {vec3} from "gl-matrix";
+import {createTerrainSample, World} from "./entities/world";
+import {Disk} from "./entities/disk";
+
+//A point a smoothed path goes through
+export interface PathWaypoint {
+    //The movement graph node the waypoint is on, or NO_NODE for points on an arc around a disk
+    node_id: number;
+    //The node before this one on the path the search found, the link between them is the one taken to get here
+    from_node_id: number;
+    //Where the waypoint is, for nodes it is the node's own position so it moves with moving disks
+    position: vec3;
+}
+
+//What smoothing needs to know about a movement graph node
+interface PathNode {
+    disk_id: number;
+    pos: vec3;
+}
+
+let ground = createTerrainSample();
+let point = vec3.create();
+let d01 = vec3.create();
+let d12 = vec3.create();
+let d23 = vec3.create();
+
+//Turns the node lists searches return into paths without needless corners and splines through them
+export namespace PathSmoothing {
+    export const NO_NODE = -1;
+    //Ground is checked this far apart along shortcuts and splines get a point this far apart
+    export const sample_spacing = 0.5;
+    //Arcs around disks that can't be cut across get a waypoint every this many radians
+    const ARC_STEP = Math.PI / 8;
+
+    //Returns the waypoints to follow from start_node_id along path
+    //Nodes are left out while a straight line past them stays on walkable ground of the disks the path crosses
+    //Nodes on moving disks are always kept since the ground between them keeps changing
+    export function simplify(
+        world: World,
+        nodes: ReadonlyArray<PathNode>,
+        start_node_id: number,
+        path: number[]
+    ): PathWaypoint[] {
+        let route = [start_node_id, ...path.filter((node_id, i) => node_id !== (i > 0 ? path[i - 1] : start_node_id))];
+        let waypoints: PathWaypoint[] = [];
+
+        let anchor = 0;
+        while (anchor < route.length - 1) {
+            let next = anchor + 1;
+            for (let j = route.length - 1; j > anchor + 1; j--) {
+                if (isStraightWalkable(world, nodes, route, anchor, j)) {
+                    next = j;
+                    break;
+                }
+            }
+
+            //Going around a disk the arc is followed when cutting across it isn't walkable
+            let node_a = nodes[route[anchor]];
+            let node_b = nodes[route[next]];
+            if (
+                node_a.disk_id === node_b.disk_id &&
+                world.disks[node_a.disk_id].motion === null &&
+                !isStraightWalkable(world, nodes, route, anchor, next)
+            )
+                addArc(waypoints, world.disks[node_a.disk_id], node_a.pos, node_b.pos);
+
+            waypoints.push({ node_id: route[next], from_node_id: route[next - 1], position: nodes[route[next]].pos });
+            anchor = next;
+        }
+        return waypoints;
+    }
+
+    //Sets out to points about sample_spacing apart on a centripetal Catmull-Rom spline from p1 to p2
+    //p0 and p3 are the waypoints before and after so the splines on each side of a waypoint meet without a corner
+    //p1 and p2 are left out. Out is empty if the spline leaves walkable ground, going straight is safer then
+    export function spline(out: vec3[], world: World, p0: vec3, p1: vec3, p2: vec3, p3: vec3): vec3[] {
+        out.length = 0;
+        let length = Math.hypot(p2[0] - p1[0], p2[2] - p1[2]);
+        let count = Math.ceil(length / sample_spacing);
+        if (count < 2) return out;
+
+        //Waypoints on top of each other have no direction so one is made up in line with the spline
+        vec3.sub(d12, p2, p1);
+        vec3.sub(d01, p1, p0);
+        vec3.sub(d23, p3, p2);
+        if (vec3.length(d01) < 0.001) vec3.copy(d01, d12);
+        if (vec3.length(d23) < 0.001) vec3.copy(d23, d12);
+
+        //Knot spacing is the square root of the distance between the points
+        let t1 = Math.sqrt(vec3.length(d01));
+        let t2 = t1 + Math.sqrt(vec3.length(d12));
+        let t3 = t2 + Math.sqrt(vec3.length(d23));
+
+        let height = world.sampleTerrain(ground, p1[0], p1[2], 0, p1[1] + World.step_height).height;
+        for (let k = 1; k < count; k++) {
+            let t = t1 + ((t2 - t1) * k) / count;
+            let q = vec3.create();
+            for (let c = 0; c < 3; c++) {
+                let x0 = p1[c] - d01[c];
+                let x3 = p2[c] + d23[c];
+                let a1 = ((t1 - t) * x0 + t * p1[c]) / t1;
+                let a2 = ((t2 - t) * p1[c] + (t - t1) * p2[c]) / (t2 - t1);
+                let a3 = ((t3 - t) * p2[c] + (t - t2) * x3) / (t3 - t2);
+                let b1 = ((t2 - t) * a1 + t * a2) / t2;
+                let b2 = ((t3 - t) * a2 + (t - t1) * a3) / (t3 - t1);
+                q[c] = ((t2 - t) * b1 + (t - t1) * b2) / (t2 - t1);
+            }
+
+            world.sampleTerrain(ground, q[0], q[2], 0, height + World.step_height);
+            if (ground.disk === null || Math.abs(ground.height - height) > World.step_height) {
+                out.length = 0;
+                return out;
+            }
+            height = ground.height;
+            out.push(q);
+        }
+        return out;
+    }
+
+    //Returns true if the straight line from route[i] to route[j] is walkable and stays on the disks between them
+    function isStraightWalkable(
+        world: World,
+        nodes: ReadonlyArray<PathNode>,
+        route: number[],
+        i: number,
+        j: number
+    ): boolean {
+        let disks: Disk[] = [];
+        for (let k = i; k <= j; k++) {
+            let disk = world.disks[nodes[route[k]].disk_id];
+            if (disk.motion !== null) return false;
+            disks.push(disk);
+        }
+
+        let from = nodes[route[i]].pos;
+        let to = nodes[route[j]].pos;
+        let samples = Math.ceil(Math.hypot(to[0] - from[0], to[2] - from[2]) / sample_spacing);
+
+        let height = world.sampleTerrain(ground, from[0], from[2], 0, from[1] + World.step_height).height;
+        for (let k = 1; k <= samples; k++) {
+            vec3.lerp(point, from, to, k / samples);
+            world.sampleTerrain(ground, point[0], point[2], 0, height + World.step_height);
+            if (disks.indexOf(ground.disk) === -1) return false;
+            if (Math.abs(ground.height - height) > World.step_height) return false;
+            height = ground.height;
+        }
+        return true;
+    }
+
+    //Adds waypoints along the shorter arc around the disk from a to b, leaving out a and b
+    function addArc(waypoints: PathWaypoint[], disk: Disk, a: vec3, b: vec3): void {
+        let center = disk.position;
+        let angle_a = Math.atan2(a[2] - center[2], a[0] - center[0]);
+        let angle = Math.atan2(b[2] - center[2], b[0] - center[0]) - angle_a;
+        if (angle > Math.PI) angle -= Math.PI * 2;
+        else if (angle < -Math.PI) angle += Math.PI * 2;
+
+        let radius = Math.hypot(a[0] - center[0], a[2] - center[2]);
+        let steps = Math.ceil(Math.abs(angle) / ARC_STEP);
+        for (let k = 1; k < steps; k++) {
+            let arc_angle = angle_a + (angle * k) / steps;
+            waypoints.push({
+                node_id: NO_NODE,
+                from_node_id: NO_NODE,
+                position: vec3.fromValues(
+                    center[0] + Math.cos(arc_angle) * radius,
+                    a[1],
+                    center[2] + Math.sin(arc_angle) * radius
+                )
+            });
+        }
+    }
+}
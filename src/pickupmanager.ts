@@ -1,11 +1,13 @@
 import {BasicModel} from "./entities/models/basicmodel";
 import {Ring} from "./entities/ring";
 import {Rod} from "./entities/rod";
-import {World} from "./entities/world";
+import {Random_Stream, World} from "./entities/world";
 import {vec3} from "gl-matrix";
 import {Collision} from "./helpers/collision";
 import {Renderer} from "./renderers/renderer";
 import {MovementGraph} from "./movementgraph";
+import {Disk_Flag} from "./entities/disk";
+import {Random} from "./helpers/random";
 
 export class PickupManager {
     private readonly rod_model: BasicModel;
@@ -15,6 +17,7 @@ export class PickupManager {
     public rods: Array<Rod>;
 
     private score: number;
+    private random: Random;
 
     public constructor(world: World, world_graph: MovementGraph, rod: BasicModel, ring: BasicModel) {
         this.rod_model = rod;
@@ -24,13 +27,29 @@ export class PickupManager {
 
     public init(world: World, world_graph: MovementGraph): void {
         this.score = 0;
+        this.random = world.createRandom(Random_Stream.PICKUPS);
         this.rings = [];
         this.rods = [];
 
-        for (let disk of world.disks) {
-            let pos: vec3 = vec3.clone(disk.position);
-            pos[1] = world.getHeightAtPointPosition(pos[0], pos[2]);
-            this.addRod(pos, disk.type + 1);
+        if (world.rod_spawns) {
+            for (let rod of world.rod_spawns) {
+                let pos: vec3 = vec3.fromValues(rod.x, 0, rod.z);
+                pos[1] = world.getHeightAtPointPosition(pos[0], pos[2]);
+                this.addRod(pos, rod.value);
+            }
+        } else {
+            for (let disk of world.disks) {
+                if (disk.flags & Disk_Flag.NO_ROD) continue;
+                let pos: vec3 = vec3.clone(disk.position);
+                pos[1] = world.getHeightAtPointPosition(pos[0], pos[2]);
+                this.addRod(pos, disk.type + 1);
+            }
+        }
+
+        let ring_count = world.ring_count !== null ? world.ring_count : world.disks.length;
+        //Rings move along the graph so they need somewhere to go
+        if (world_graph.getNodeCount() === 0) ring_count = 0;
+        for (let i = 0; i < ring_count; i++) {
             this.addRing(world, world_graph);
         }
     }
@@ -89,7 +108,13 @@ export class PickupManager {
     }
 
     public addRing(world: World, world_graph: MovementGraph): void {
-        this.rings.push(new Ring(this.rings.length, world, world_graph, this.ring_model));
+        this.rings.push(new Ring(this.rings.length, world, world_graph, this.ring_model, this.random));
+    }
+
+    //Tells the rings which nodes were removed or moved after the movement graph was changed
+    public onGraphChanged(invalidated: ReadonlySet<number>): void {
+        if (invalidated.size === 0) return;
+        for (let ring of this.rings) ring.onGraphChanged(invalidated);
     }
 
     public getScore(): number {
@@ -46,6 +46,18 @@ export class PointList {
         this.data[this.counter++] = color[3];
     }
 
+    //Moves the point at index without changing its color
+    public setPosition(index: number, pos: vec3) {
+        let offset = index * PointList.floats_per_point;
+        this.data[offset] = pos[0];
+        this.data[offset + 1] = pos[1];
+        this.data[offset + 2] = pos[2];
+        if (!this.arrayView || this.arrayView.length <= offset + 2) return;
+        this.arrayView[offset] = pos[0];
+        this.arrayView[offset + 1] = pos[1];
+        this.arrayView[offset + 2] = pos[2];
+    }
+
     public static stride() {
         return 4 * this.floats_per_point;
     }
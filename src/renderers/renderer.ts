@@ -4,6 +4,7 @@ import {Entity, Model_Type} from "entities/entity";
 import {mat4, quat, vec2, vec3, vec4} from "gl-matrix";
 import {Shader} from "shader";
 import {MeshlessModel} from "entities/models/meshlessmodel";
+import {DisplacedModel} from "entities/models/displacedmodel";
 import {DepthTexture} from "./depthtexture";
 import {ShadowBox} from "./shadowbox";
 import {Camera} from "../camera";
@@ -30,6 +31,8 @@ export class Renderer {
     public shadow_enabled: boolean;
     public depth_texture: DepthTexture;
     private shadow_box: ShadowBox;
+    //Heightmap triangles drawn by the last render, for comparing levels of detail
+    public heightmap_triangle_count: number = 0;
     private light_view_matrix: mat4;
     private light_direction: vec4;
     private shadow_map_space_matrix: mat4;
@@ -239,6 +242,7 @@ export class Renderer {
         let buffer_act = 0;
         let draw_calls = 0;
         let entities_to_draw = [];
+        this.heightmap_triangle_count = 0;
         for (const material_key of this.materials.keys()) {
             let material = this.materials.get(material_key);
             let activated = false;
@@ -271,8 +275,7 @@ export class Renderer {
 
                 for (let entity of entities_to_draw) {
                     mat4.identity(model_matrix);
-                    quat.identity(q);
-                    quat.rotateY(q, q, Math.atan2(entity.forward[0], entity.forward[2]) + model.rotation_offset);
+                    entity.getRotation(q, model.rotation_offset);
                     mat4.fromRotationTranslationScale(model_matrix, q, entity.position, entity.scalar);
                     this.active_shader.setMVPMatrices(model_matrix, view_matrix, projection_matrix, camera_position);
                     model.drawActivatedMaterial(this.gl, mat_id);
@@ -296,6 +299,7 @@ export class Renderer {
                 if (entities_to_draw.length > 0) {
                     //Activate this model
                     model.activateBuffers(this.gl);
+                    if (model instanceof DisplacedModel) model.bindHeightMap(this.gl, this.active_shader);
                     buffer_act++;
                     //Activate the material
                     if (!activated) {
@@ -306,8 +310,7 @@ export class Renderer {
 
                     for (let entity of entities_to_draw) {
                         mat4.identity(model_matrix);
-                        quat.identity(q);
-                        quat.rotateY(q, q, Math.atan2(entity.forward[0], entity.forward[2]) + model.rotation_offset);
+                        entity.getRotation(q, model.rotation_offset);
                         mat4.fromRotationTranslationScale(model_matrix, q, entity.position, entity.scalar);
                         this.active_shader.setMVPMatrices(
                             model_matrix,
@@ -315,9 +318,15 @@ export class Renderer {
                             projection_matrix,
                             camera_position
                         );
-                        model.drawActivatedMaterial(this.gl);
+                        //Far away heightmaps use fewer triangles
+                        let lod = 0;
+                        if (global.lod_enabled)
+                            lod = model.selectLod(vec3.distance(camera_position, entity.position), entity.scalar[0]);
+                        this.heightmap_triangle_count += model.drawActivatedMaterial(this.gl, lod);
                         draw_calls++;
                     }
+                    if (model instanceof DisplacedModel)
+                        this.active_shader.setBool(this.active_shader.uniforms.displacement_enabled, false);
                 }
             }
         }
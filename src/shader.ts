@@ -6,8 +6,14 @@ export class Uniforms {
     view_matrix: WebGLUniformLocation;
     model_view_projection_matrix: WebGLUniformLocation;
     camera_pos: WebGLUniformLocation;
+    displacement_enabled: WebGLUniformLocation;
+    height_map_size: WebGLUniformLocation;
 }
 
+//Texture unit of the displaced heightmap, after the material and shadow map units
+//It has its own unit so it never shares one with a different type of sampler
+export const HEIGHT_MAP_TEXTURE_UNIT = 7;
+
 let camera = vec3.fromValues(0,0,0);
 
 export class Shader {
@@ -38,6 +44,11 @@ export class Shader {
         this.uniforms.view_matrix = this.getUniformLocation("view_matrix");
         this.uniforms.model_view_projection_matrix = this.getUniformLocation("model_view_projection_matrix");
         this.uniforms.camera_pos = this.getUniformLocation("camera_pos");
+        this.uniforms.displacement_enabled = this.getUniformLocation("displacement_enabled");
+        this.uniforms.height_map_size = this.getUniformLocation("height_map_size");
+
+        gl.useProgram(this.ID);
+        this.setInt(this.getUniformLocation("height_map"), HEIGHT_MAP_TEXTURE_UNIT);
     }
 
     public use(): void {
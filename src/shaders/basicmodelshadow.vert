@@ -19,6 +19,18 @@ uniform float shadow_distance;
 uniform bool tween_enabled;
 uniform float tween_factor;
 
+//Heightmaps drawn with a shared flat grid are displaced by a float texture of heights
+//Rows of the texture are x and columns are z
+uniform bool displacement_enabled;
+uniform highp sampler2D height_map;
+uniform float height_map_size;
+
+float heightAt(ivec2 cell)
+{
+    cell = clamp(cell, ivec2(0), ivec2(int(height_map_size)));
+    return texelFetch(height_map, cell.yx, 0).r;
+}
+
 struct Light{
     bool is_enabled;
     vec4 position;
@@ -47,6 +59,14 @@ void main()
 		new_normal = mix(a_normal,a_normal1,tween_factor);      
         new_vertex = mix(a_vertex,a_vertex1,tween_factor);
     }
+    if(displacement_enabled)
+    {
+        ivec2 cell = ivec2(round(new_vertex.xz + height_map_size / 2.0));
+        new_vertex.y = heightAt(cell) + 0.00001;
+        float dx = heightAt(cell + ivec2(1, 0)) - heightAt(cell - ivec2(1, 0));
+        float dz = heightAt(cell + ivec2(0, 1)) - heightAt(cell - ivec2(0, 1));
+        new_normal = normalize(vec3(-dx, 2.0, -dz));
+    }
 	
 	vec4 world_position = model_matrix * vec4(new_vertex, 1.0);
 
@@ -8,11 +8,28 @@ uniform mat4 model_view_projection_matrix;
 uniform float tween_factor;
 uniform bool tween_enabled;
 
+//Heightmaps drawn with a shared flat grid are displaced by a float texture of heights
+//Rows of the texture are x and columns are z
+uniform bool displacement_enabled;
+uniform highp sampler2D height_map;
+uniform float height_map_size;
+
+float heightAt(ivec2 cell)
+{
+    cell = clamp(cell, ivec2(0), ivec2(int(height_map_size)));
+    return texelFetch(height_map, cell.yx, 0).r;
+}
+
 void main()
 {
     vec3 new_vertex = a_vertex;
 	if(tween_enabled)
         new_vertex =  mix(a_vertex, a_vertex1, tween_factor);
+    if(displacement_enabled)
+    {
+        ivec2 cell = ivec2(round(new_vertex.xz + height_map_size / 2.0));
+        new_vertex.y = heightAt(cell) + 0.00001;
+    }
 
 	gl_Position =  model_view_projection_matrix * vec4(new_vertex, 1.0);
 }
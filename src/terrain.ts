@@ -0,0 +1,120 @@
+import {HeightMapGenerators} from "./heightmapgenerators";
+import {ErosionParams, HeightMapErosion} from "./heightmaperosion";
+
+//Special behaviour of a terrain on top of its physics
+//What effect_strength means depends on the effect
+export enum Terrain_Effect {
+    NONE = "none",
+    //Sends the player back to the spawn
+    LAVA = "lava",
+    //Launches anything landing on it upwards at effect_strength
+    BOUNCY = "bouncy",
+    //Carries anything on it around the disk center at effect_strength units per second
+    CONVEYOR = "conveyor",
+    //Jumps only get effect_strength of their normal speed
+    STICKY = "sticky"
+}
+
+//Everything that makes one terrain type different from another
+export interface TerrainDefinition {
+    id: number;
+    name: string;
+
+    //Physics
+    speed_factor: number;
+    accel_factor: number;
+    friction: number;
+    slope_factor: number;
+    effect?: Terrain_Effect;
+    effect_strength?: number;
+
+    //Heightmap
+    height_map_size: number;
+    generator: string;
+    generator_params?: any;
+    //Weathering applied to the generated heightmap
+    erosion?: ErosionParams;
+
+    //Rendering
+    //Name of the disk mesh in /assets/models/environment/disks/
+    model: string;
+    //Name of the heightmap material in Disks.mtl
+    material: string;
+
+    //Radius range used when generating worlds
+    radius_range: [number, number];
+}
+
+const NUMBER_FIELDS = ["speed_factor", "accel_factor", "friction", "slope_factor", "height_map_size"];
+const EFFECTS: string[] = Object.keys(Terrain_Effect).map(key => Terrain_Effect[key as keyof typeof Terrain_Effect]);
+
+//The terrain types disks can have. Loaded from /assets/config/terrains.json
+export namespace TerrainRegistry {
+    const definitions = new Map<number, TerrainDefinition>();
+
+    //Adds or replaces the definitions in a terrain config
+    export function loadConfig(
+        config: { terrains: TerrainDefinition[] },
+        config_name: string = "terrain config"
+    ): void {
+        if (!config || !Array.isArray(config.terrains)) throw config_name + ": Expected a terrains array";
+        for (let [i, definition] of config.terrains.entries()) {
+            register(definition, config_name + ": terrains[" + i + "]");
+        }
+    }
+
+    export function register(definition: TerrainDefinition, source: string = "terrain " + definition.name): void {
+        if (!Number.isInteger(definition.id) || definition.id < 0) throw source + ": id must be a non-negative integer";
+        if (typeof definition.name !== "string" || definition.name === "") throw source + ": name is required";
+        //The definition is parsed JSON so any field can be missing or of the wrong type
+        let fields: Record<string, unknown> = { ...definition };
+        for (let field of NUMBER_FIELDS) {
+            if (typeof fields[field] !== "number") throw source + ": " + field + " must be a number";
+        }
+        if (definition.height_map_size < 1 || definition.height_map_size % 2 !== 0)
+            throw source + ": height_map_size must be a positive even number";
+        if (!HeightMapGenerators.has(definition.generator))
+            throw source + ": Unknown heightmap generator '" + definition.generator + "'";
+        if (typeof definition.model !== "string" || typeof definition.material !== "string")
+            throw source + ": model and material are required";
+        if (!Array.isArray(definition.radius_range) || definition.radius_range.length !== 2)
+            throw source + ": radius_range must be [min, max]";
+        if (definition.effect !== undefined && !EFFECTS.includes(definition.effect))
+            throw source + ": Unknown effect '" + definition.effect + "'";
+        if (definition.effect_strength !== undefined && typeof definition.effect_strength !== "number")
+            throw source + ": effect_strength must be a number";
+        if (definition.erosion !== undefined) HeightMapErosion.validate(definition.erosion, source);
+
+        definitions.set(definition.id, {
+            ...definition,
+            name: definition.name.toUpperCase(),
+            effect: definition.effect || Terrain_Effect.NONE,
+            effect_strength: definition.effect_strength || 0
+        });
+    }
+
+    export function get(id: number): TerrainDefinition {
+        let definition = definitions.get(id);
+        if (definition === undefined) throw "No terrain with id: " + id;
+        return definition;
+    }
+
+    export function has(id: number): boolean {
+        return definitions.has(id);
+    }
+
+    //Returns the terrain with the name (case insensitive) or undefined if there is none
+    export function getByName(name: string): TerrainDefinition | undefined {
+        let upper = name.trim().toUpperCase();
+        for (let definition of definitions.values()) {
+            if (definition.name === upper) return definition;
+        }
+        return undefined;
+    }
+
+    export function getAll(): TerrainDefinition[] {
+        return Array.from(definitions.values()).sort((a, b) => a.id - b.id);
+    }
+
+    loadConfig(require("../assets/config/terrains.json"), "terrains.json");
+}
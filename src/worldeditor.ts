@@ -0,0 +1,444 @@
+import {glMatrix, mat4, vec3, vec4} from "gl-matrix";
+import {World} from "./entities/world";
+import {Disk_Flag, Terrain} from "./entities/disk";
+import {Camera} from "./camera";
+import {global} from "./globals";
+import {DiskDescription, MapFile} from "./worldfile";
+import {TerrainRegistry} from "./terrain";
+import {Brush, Brush_Type, HeightMapBrushes} from "./heightmapbrushes";
+import {Random} from "./helpers/random";
+
+let g_keys: Array<boolean> = global.keys;
+let g_mouse_keys: Array<boolean> = global.mouse_keys;
+
+const CAMERA_PAN_SPEED = 60.0;
+const RESIZE_STEP = 1.0;
+const MIN_RADIUS = 2.0;
+const BRUSH_STEP = 0.5;
+const SELECTION_SEGMENTS = 48;
+
+let view_matrix = mat4.create();
+let projection_matrix = mat4.create();
+let inverse_vp_matrix = mat4.create();
+let near = vec4.create();
+let far = vec4.create();
+let hit = vec3.create();
+let pan = vec3.create();
+let p0 = vec3.create();
+let p1 = vec3.create();
+let selection_color = vec4.fromValues(1, 1, 0, 1);
+
+//One undoable change to the disk list
+//before is null for an added disk and after is null for a removed disk
+interface EditorAction {
+    index: number;
+    before: DiskDescription | null;
+    after: DiskDescription | null;
+}
+
+export enum Disk_Change_Type {
+    ADDED,
+    REMOVED,
+    CHANGED
+}
+
+//A disk the editor added, removed or changed, index is where it is or was in the disk list at the time
+export interface DiskChange {
+    type: Disk_Change_Type;
+    index: number;
+}
+
+//Edits the disks of a world with the mouse from the overview camera
+//Left click selects and drags disks, right click adds a disk of the brush terrain,
+//[ and ] resize, T changes terrain, Delete removes, Ctrl+Z undoes and Ctrl+Y redoes
+//WASD pans the camera
+//B switches to sculpting where left click paints the heightmap with the brush,
+//1-5 pick the brush, [ and ] change its radius and - and = its strength
+export class WorldEditor {
+    private readonly gl: WebGL2RenderingContext;
+    private readonly world: World;
+    private readonly camera: Camera;
+
+    public selected: number = -1;
+    public brush_terrain: Terrain = Terrain.RED_ROCK;
+    public sculpting: boolean = false;
+    public brush: Brush = { type: Brush_Type.RAISE, radius: 3.0, strength: 2.0 };
+
+    private undo_stack: EditorAction[] = [];
+    private redo_stack: EditorAction[] = [];
+    private changes: DiskChange[] = [];
+
+    private dragging: boolean = false;
+    private drag_before: DiskDescription | null = null;
+    private drag_offset: vec3 = vec3.create();
+    private left_was_down: boolean = false;
+    private right_was_down: boolean = false;
+    private stroke_before: DiskDescription | null = null;
+    private readonly random: Random = new Random();
+
+    constructor(gl: WebGL2RenderingContext, world: World, camera: Camera) {
+        this.gl = gl;
+        this.world = world;
+        this.camera = camera;
+    }
+
+    //Forgets the selection and history, for when a different world is loaded
+    public reset(): void {
+        this.selected = -1;
+        this.dragging = false;
+        this.drag_before = null;
+        this.stroke_before = null;
+        this.undo_stack = [];
+        this.redo_stack = [];
+        this.changes = [];
+    }
+
+    //Returns the changes to the disks in the order they were made since this was last called
+    //So what was built from the disks can be updated without building it again
+    public takeChanges(): DiskChange[] {
+        let changes = this.changes;
+        this.changes = [];
+        return changes;
+    }
+
+    //Returns true if the disks changed so everything built from them has to be rebuilt
+    public update(delta_ms: number): boolean {
+        let changed = false;
+        let ctrl = g_keys[17];
+
+        if (!ctrl) this.panCamera(delta_ms);
+
+        //Ctrl+Z undo, Ctrl+Shift+Z or Ctrl+Y redo
+        if (ctrl && g_keys[90]) {
+            g_keys[90] = false;
+            changed = g_keys[16] ? this.redo() : this.undo();
+        }
+        if (ctrl && g_keys[89]) {
+            g_keys[89] = false;
+            changed = this.redo();
+        }
+
+        //Delete or Backspace to remove the selected disk
+        if (g_keys[46] || g_keys[8]) {
+            g_keys[46] = g_keys[8] = false;
+            changed = this.deleteSelected() || changed;
+        }
+
+        //B to switch between moving disks and sculpting them
+        if (g_keys[66]) {
+            g_keys[66] = false;
+            changed = this.endDrag() || this.endStroke() || changed;
+            this.sculpting = !this.sculpting;
+            console.log("editor: " + (this.sculpting ? "sculpting with " + Brush_Type[this.brush.type] : "disks"));
+        }
+
+        if (this.sculpting) {
+            this.updateBrush();
+        } else if (g_keys[219]) {
+            //[ and ] to shrink and grow the selected disk
+            g_keys[219] = false;
+            changed = this.resizeSelected(-RESIZE_STEP) || changed;
+        }
+        if (g_keys[221]) {
+            g_keys[221] = false;
+            changed = this.resizeSelected(RESIZE_STEP) || changed;
+        }
+
+        //T to cycle the terrain of the brush and the selected disk
+        if (g_keys[84]) {
+            g_keys[84] = false;
+            changed = this.cycleTerrain() || changed;
+        }
+
+        let left_down = !!g_mouse_keys[1];
+        if (this.sculpting) {
+            if (left_down) this.sculpt(delta_ms, !this.left_was_down);
+            else changed = this.endStroke() || changed;
+        } else {
+            if (left_down && !this.left_was_down) this.beginDrag();
+            else if (left_down && this.dragging) this.drag();
+            else if (!left_down && this.dragging) changed = this.endDrag() || changed;
+        }
+        this.left_was_down = left_down;
+
+        let right_down = !!g_mouse_keys[3];
+        if (right_down && !this.right_was_down) changed = this.addDiskAtCursor() || changed;
+        this.right_was_down = right_down;
+
+        return changed;
+    }
+
+    //Draws an outline around the selected disk
+    public draw(view_matrix: mat4, projection_matrix: mat4): void {
+        let disk = this.world.disks[this.selected];
+        if (!disk) return;
+
+        global.line_renderer.prepare();
+        global.line_renderer.preAllocatePointLine(SELECTION_SEGMENTS * 2);
+        for (let i = 0; i < SELECTION_SEGMENTS; i++) {
+            let a0 = (i / SELECTION_SEGMENTS) * Math.PI * 2;
+            let a1 = ((i + 1) / SELECTION_SEGMENTS) * Math.PI * 2;
+            vec3.set(p0, Math.cos(a0) * disk.radius, 0.5, Math.sin(a0) * disk.radius);
+            vec3.set(p1, Math.cos(a1) * disk.radius, 0.5, Math.sin(a1) * disk.radius);
+            global.line_renderer.addLine(
+                vec3.add(p0, p0, disk.position),
+                vec3.add(p1, p1, disk.position),
+                selection_color
+            );
+        }
+        this.gl.disable(this.gl.DEPTH_TEST);
+        let vp_matrix = mat4.mul(mat4.create(), projection_matrix, view_matrix);
+        global.line_renderer.drawAndClear(vp_matrix);
+        this.gl.enable(this.gl.DEPTH_TEST);
+    }
+
+    //Downloads the world as a JSON map file that World.init can load
+    public save(): MapFile {
+        let map: MapFile = {
+            name: this.world.name.replace(/\.[^.]*$/, "") + ".json",
+            data: this.world.serialize()
+        };
+
+        let link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([map.data], { type: "application/json" }));
+        link.download = map.name;
+        link.click();
+        URL.revokeObjectURL(link.href);
+
+        console.log("saved world: " + map.name);
+        return map;
+    }
+
+    public undo(): boolean {
+        let action = this.undo_stack.pop();
+        if (action === undefined) return false;
+        this.applyChange(action.index, action.after, action.before);
+        this.redo_stack.push(action);
+        return true;
+    }
+
+    public redo(): boolean {
+        let action = this.redo_stack.pop();
+        if (action === undefined) return false;
+        this.applyChange(action.index, action.before, action.after);
+        this.undo_stack.push(action);
+        return true;
+    }
+
+    //Applies a new action and records it so it can be undone
+    private perform(action: EditorAction): boolean {
+        this.applyChange(action.index, action.before, action.after);
+        //Record the seed the disk was given so redoing makes the same heightmap
+        if (action.after) action.after = World.describeDisk(this.world.disks[action.index]);
+        this.record(action);
+        return true;
+    }
+
+    private record(action: EditorAction): void {
+        this.undo_stack.push(action);
+        this.redo_stack = [];
+    }
+
+    private applyChange(index: number, from: DiskDescription | null, to: DiskDescription | null): void {
+        if (from === null) {
+            this.world.insertDisk(this.gl, index, to);
+            this.changes.push({ type: Disk_Change_Type.ADDED, index: index });
+        } else if (to === null) {
+            this.world.removeDisk(this.gl, index);
+            this.changes.push({ type: Disk_Change_Type.REMOVED, index: index });
+        } else {
+            this.world.replaceDisk(this.gl, index, to);
+            this.changes.push({ type: Disk_Change_Type.CHANGED, index: index });
+        }
+        this.selected = to === null ? -1 : index;
+    }
+
+    private deleteSelected(): boolean {
+        let disk = this.world.disks[this.selected];
+        if (!disk) return false;
+        if (this.world.disks.length === 1) {
+            console.log("The last disk can't be deleted");
+            return false;
+        }
+        return this.perform({ index: this.selected, before: World.describeDisk(disk), after: null });
+    }
+
+    private resizeSelected(amount: number): boolean {
+        let disk = this.world.disks[this.selected];
+        if (!disk) return false;
+        let before = World.describeDisk(disk);
+        let radius = Math.max(before.radius + amount, MIN_RADIUS);
+        if (radius === before.radius) return false;
+        return this.perform({ index: this.selected, before: before, after: { ...before, radius: radius } });
+    }
+
+    private cycleTerrain(): boolean {
+        let disk = this.world.disks[this.selected];
+        let current = disk ? disk.type : this.brush_terrain;
+        let terrains = TerrainRegistry.getAll();
+        let next = terrains.findIndex(terrain => terrain.id === current) + 1;
+        this.brush_terrain = terrains[next % terrains.length].id;
+        console.log("editor terrain: " + TerrainRegistry.get(this.brush_terrain).name);
+
+        if (!disk) return false;
+        //The new terrain generates its own heightmap
+        let before = World.describeDisk(disk);
+        let after = { ...before, terrain: this.brush_terrain, height_map: null as number[][] | null };
+        return this.perform({ index: this.selected, before: before, after: after });
+    }
+
+    private addDiskAtCursor(): boolean {
+        if (!this.cursorPosition(hit, 0)) return false;
+        let range = TerrainRegistry.get(this.brush_terrain).radius_range;
+        return this.perform({
+            index: this.world.disks.length,
+            before: null,
+            after: {
+                x: hit[0],
+                y: 0,
+                z: hit[2],
+                radius: (range[0] + range[1]) / 2,
+                terrain: this.brush_terrain,
+                seed: null,
+                flags: Disk_Flag.NONE,
+                height_map: null,
+                height_image: null,
+                motion: null
+            }
+        });
+    }
+
+    //Selects the disk under the cursor and starts dragging it
+    private beginDrag(): void {
+        this.selected = -1;
+        if (!this.cursorPosition(hit, 0)) return;
+        let disk = this.world.getDiskAtPosition(hit[0], hit[2]);
+        if (!disk) return;
+
+        this.selected = this.world.disks.indexOf(disk);
+        if (!this.cursorPosition(hit, disk.position[1])) return;
+        vec3.sub(this.drag_offset, disk.position, hit);
+        this.drag_before = World.describeDisk(disk);
+        this.dragging = true;
+    }
+
+    //Moves the disk without regenerating it. The world is only updated when the drag ends
+    private drag(): void {
+        let disk = this.world.disks[this.selected];
+        if (!disk || !this.cursorPosition(hit, disk.position[1])) return;
+        vec3.add(hit, hit, this.drag_offset);
+        disk.setPosition(hit[0], disk.position[1], hit[2]);
+    }
+
+    private endDrag(): boolean {
+        this.dragging = false;
+        let disk = this.world.disks[this.selected];
+        let before = this.drag_before;
+        this.drag_before = null;
+        if (!disk || !before) return false;
+
+        let after = World.describeDisk(disk);
+        if (after.x === before.x && after.z === before.z) return false;
+
+        this.world.disksChanged();
+        this.record({ index: this.selected, before: before, after: after });
+        this.changes.push({ type: Disk_Change_Type.CHANGED, index: this.selected });
+        return true;
+    }
+
+    //1-5 pick the brush type, [ and ] change the radius and - and = change the strength
+    private updateBrush(): void {
+        for (let type = Brush_Type.RAISE; type <= Brush_Type.NOISE; type++) {
+            if (!g_keys[49 + type]) continue;
+            g_keys[49 + type] = false;
+            this.brush.type = type;
+            console.log("editor brush: " + Brush_Type[type]);
+        }
+
+        let radius = this.brush.radius;
+        let strength = this.brush.strength;
+        if (g_keys[219]) radius -= BRUSH_STEP;
+        if (g_keys[221]) radius += BRUSH_STEP;
+        if (g_keys[189]) strength -= BRUSH_STEP;
+        if (g_keys[187]) strength += BRUSH_STEP;
+        g_keys[219] = g_keys[221] = g_keys[189] = g_keys[187] = false;
+
+        if (radius !== this.brush.radius || strength !== this.brush.strength) {
+            this.brush.radius = Math.max(radius, BRUSH_STEP);
+            this.brush.strength = Math.max(strength, BRUSH_STEP);
+            console.log("editor brush radius: " + this.brush.radius + " strength: " + this.brush.strength);
+        }
+    }
+
+    //Paints the brush on the disk under the cursor. A stroke stays on the disk it started on
+    private sculpt(delta_ms: number, begin: boolean): void {
+        if (begin) {
+            this.selected = -1;
+            if (!this.cursorPosition(hit, 0)) return;
+            let picked = this.world.getDiskAtPosition(hit[0], hit[2]);
+            if (!picked) return;
+            this.selected = this.world.disks.indexOf(picked);
+            this.stroke_before = World.describeDisk(picked);
+        }
+
+        let disk = this.world.disks[this.selected];
+        if (!disk || !this.stroke_before || !this.cursorPosition(hit, disk.position[1])) return;
+        HeightMapBrushes.apply(this.gl, disk, this.brush, hit[0], hit[2], delta_ms / 1000, this.random);
+    }
+
+    private endStroke(): boolean {
+        let disk = this.world.disks[this.selected];
+        let before = this.stroke_before;
+        this.stroke_before = null;
+        if (!disk || !before) return false;
+
+        let after = World.describeDisk(disk);
+        if (!after.height_map || JSON.stringify(after.height_map) === JSON.stringify(before.height_map)) return false;
+
+        this.record({ index: this.selected, before: before, after: after });
+        this.changes.push({ type: Disk_Change_Type.CHANGED, index: this.selected });
+        return true;
+    }
+
+    private panCamera(delta_ms: number): void {
+        //Pan along the ground in the direction the camera is facing
+        let distance = CAMERA_PAN_SPEED * delta_ms / 1000;
+        vec3.set(pan, this.camera.front[0], 0, this.camera.front[2]);
+        if (vec3.length(pan) === 0) vec3.set(pan, 0, 0, -1);
+        vec3.normalize(pan, pan);
+
+        if (g_keys[87]) vec3.scaleAndAdd(this.camera.position, this.camera.position, pan, distance);
+        if (g_keys[83]) vec3.scaleAndAdd(this.camera.position, this.camera.position, pan, -distance);
+
+        //Right of the forward direction
+        vec3.set(pan, -pan[2], 0, pan[0]);
+        if (g_keys[68]) vec3.scaleAndAdd(this.camera.position, this.camera.position, pan, distance);
+        if (g_keys[65]) vec3.scaleAndAdd(this.camera.position, this.camera.position, pan, -distance);
+    }
+
+    //Sets out to where the ray under the cursor hits the horizontal plane at height y
+    //Returns false if the ray doesn't hit the plane
+    private cursorPosition(out: vec3, y: number): boolean {
+        let rect = global.canvas.getBoundingClientRect();
+        let ndc_x = ((global.mouse_x - rect.left) / rect.width) * 2 - 1;
+        let ndc_y = 1 - ((global.mouse_y - rect.top) / rect.height) * 2;
+
+        this.camera.getViewMatrix(view_matrix);
+        mat4.perspective(projection_matrix, glMatrix.toRadian(global.FOV), rect.width / rect.height, 0.1, 2000);
+        mat4.multiply(inverse_vp_matrix, projection_matrix, view_matrix);
+        mat4.invert(inverse_vp_matrix, inverse_vp_matrix);
+
+        vec4.transformMat4(near, vec4.set(near, ndc_x, ndc_y, -1, 1), inverse_vp_matrix);
+        vec4.transformMat4(far, vec4.set(far, ndc_x, ndc_y, 1, 1), inverse_vp_matrix);
+        vec4.scale(near, near, 1 / near[3]);
+        vec4.scale(far, far, 1 / far[3]);
+
+        let dy = far[1] - near[1];
+        if (Math.abs(dy) < 1e-9) return false;
+        let t = (y - near[1]) / dy;
+        if (t < 0) return false;
+
+        vec3.set(out, near[0] + (far[0] - near[0]) * t, y, near[2] + (far[2] - near[2]) * t);
+        return true;
+    }
+}
@@ -0,0 +1,208 @@
+import {Disk_Flag, Terrain} from "./entities/disk";
+import {TerrainRegistry} from "./terrain";
+import {HeightImageReference} from "./heightmapimages";
+import {DiskMotion} from "./diskmotion";
+
+const FLAG_NAMES: { [name: string]: Disk_Flag } = {
+    spawn: Disk_Flag.PLAYER_SPAWN,
+    norod: Disk_Flag.NO_ROD
+};
+
+//The description of a single disk before it is created in the world
+export interface DiskDescription {
+    x: number;
+    y: number;
+    z: number;
+    radius: number;
+    terrain: Terrain;
+    //Heightmap seed, null when the heightmap is not seeded
+    seed: number | null;
+    flags: Disk_Flag;
+    //Heights indexed [x][z] that replace the generated heightmap, null to generate it from the seed
+    height_map: number[][] | null;
+    //Grayscale image the heightmap is sampled from when there is no height_map, null to generate it
+    height_image: HeightImageReference | null;
+    //How the disk moves from its position, null if it stays still
+    motion: DiskMotion | null;
+}
+
+//A rod pickup placed at a position on the world
+export interface RodDescription {
+    x: number;
+    z: number;
+    value: number;
+}
+
+export interface PositionDescription {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export interface WorldMetadata {
+    author?: string;
+    description?: string;
+}
+
+//The description of a whole world before it is created
+//Spawns and pickups that are null are placed the default way, one per disk
+export interface WorldDescription {
+    name: string;
+    metadata: WorldMetadata;
+    //World seed, a random seed is picked when the world is loaded if it is null
+    seed: number | null;
+    world_radius: number;
+    disks: DiskDescription[];
+    player_spawn: { x: number; z: number } | null;
+    rods: RodDescription[] | null;
+    ring_count: number | null;
+    bats: PositionDescription[] | null;
+}
+
+//A world file that has been downloaded but not parsed
+export interface MapFile {
+    name: string;
+    data: string;
+}
+
+//Reads the tab separated DISK world files
+//
+//The header is followed by a line with the world radius and a line with the disk count
+//Version 2 can have the world seed after the world radius
+//
+//Version 1 lines are: x z radius
+//Version 2 lines are: x z radius [terrain] [y] [seed] [flags]
+//Optional version 2 columns can be left off or set to "-" to use the version 1 behaviour
+//Flags are a comma separated list of: spawn, norod
+export namespace WorldFile {
+    export function parse(data: string, file_name: string = "unnamed"): WorldDescription {
+        const lines = data.split(/\r?\n/);
+
+        let error = (line: number, message: string): string => file_name + ":" + (line + 1) + ": " + message;
+
+        let version: number;
+        if (lines[0].indexOf("DISK version 1") === 0) version = 1;
+        else if (lines[0].indexOf("DISK version 2") === 0) version = 2;
+        else throw error(0, "Unknown disk world file header '" + lines[0].trim() + "'");
+
+        const radius_elements = (lines[1] || "").trim().split(/\t+/);
+        if (radius_elements.length > (version === 1 ? 1 : 2)) throw error(1, "Too many columns");
+        let world_radius = parseNumber(radius_elements[0], () => error(1, "Invalid world radius"));
+        let world_seed: number = null;
+        if (isSet(radius_elements[1]))
+            world_seed = parseSeed(radius_elements[1], () => error(1, "Invalid world seed '" + radius_elements[1] + "'"));
+        let count = parseNumber(lines[2], () => error(2, "Invalid disk count"));
+
+        let disks: DiskDescription[] = [];
+        for (let i = 0; i < count; i++) {
+            const line_number = i + 3;
+            if (line_number >= lines.length || lines[line_number].trim() === "")
+                throw error(line_number, "Expected " + count + " disks but found " + i);
+
+            const elements = lines[line_number].trim().split(/\t+/);
+            const max_columns = version === 1 ? 3 : 7;
+            if (elements.length < 3 || elements.length > max_columns)
+                throw error(line_number, "Expected 3 to " + max_columns + " columns but found " + elements.length);
+
+            let column = (index: number, name: string) => () =>
+                error(line_number, "Invalid " + name + " '" + elements[index] + "'");
+
+            let radius = parseNumber(elements[2], column(2, "radius"));
+            if (radius <= 0) throw error(line_number, "Disk radius must be positive");
+
+            let disk: DiskDescription = {
+                x: parseNumber(elements[0], column(0, "x")),
+                y: 0,
+                z: parseNumber(elements[1], column(1, "z")),
+                radius: radius,
+                terrain: terrainForRadius(radius),
+                seed: null,
+                flags: Disk_Flag.NONE,
+                height_map: null,
+                height_image: null,
+                motion: null
+            };
+
+            if (isSet(elements[3])) disk.terrain = parseTerrain(elements[3], column(3, "terrain"));
+            if (isSet(elements[4])) disk.y = parseNumber(elements[4], column(4, "y"));
+            if (isSet(elements[5])) disk.seed = parseSeed(elements[5], column(5, "seed"));
+            if (isSet(elements[6])) disk.flags = parseFlags(elements[6], column(6, "flags"));
+
+            disks.push(disk);
+        }
+
+        return {
+            name: file_name,
+            metadata: {},
+            seed: world_seed,
+            world_radius: world_radius,
+            disks: disks,
+            player_spawn: null,
+            rods: null,
+            ring_count: null,
+            bats: null
+        };
+    }
+
+    //The terrain a version 1 disk gets based on its radius
+    export function terrainForRadius(radius: number): Terrain {
+        if (radius < 8) return Terrain.RED_ROCK;
+        if (radius <= 12) return Terrain.LEAFY;
+        if (radius <= 20) return Terrain.ICY;
+        if (radius <= 30) return Terrain.SANDY;
+        return Terrain.GREY_ROCK;
+    }
+
+    //Returns the names of the flags that are set
+    export function flagNames(flags: Disk_Flag): string[] {
+        return Object.keys(FLAG_NAMES).filter(name => flags & FLAG_NAMES[name]);
+    }
+
+    //Returns the flag with the name or undefined if there is no flag with that name
+    export function flagFromName(name: string): Disk_Flag | undefined {
+        return FLAG_NAMES[name.trim().toLowerCase()];
+    }
+
+    //Returns the terrain with the name or number or undefined if there is no terrain with that name
+    export function terrainFromName(name: string): Terrain | undefined {
+        let definition = TerrainRegistry.getByName(name);
+        if (definition !== undefined) return definition.id;
+
+        let value = Number(name.trim());
+        if (name.trim() !== "" && Number.isInteger(value) && TerrainRegistry.has(value)) return value;
+        return undefined;
+    }
+
+    function isSet(element: string): boolean {
+        return element !== undefined && element !== "-";
+    }
+
+    function parseNumber(element: string, error: () => string): number {
+        if (element === undefined || element.trim() === "") throw error();
+        let value = Number(element.trim());
+        if (!isFinite(value)) throw error();
+        return value;
+    }
+
+    function parseSeed(element: string, error: () => string): number {
+        let value = parseNumber(element, error);
+        if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) throw error();
+        return value;
+    }
+
+    function parseTerrain(element: string, error: () => string): Terrain {
+        let terrain = terrainFromName(element);
+        if (terrain === undefined) throw error();
+        return terrain;
+    }
+
+    function parseFlags(element: string, error: () => string): Disk_Flag {
+        let flags = Disk_Flag.NONE;
+        for (let name of element.split(",")) {
+            let flag = flagFromName(name);
+            if (flag === undefined) throw error();
+            flags |= flag;
+        }
+        return flags;
+    }
+}
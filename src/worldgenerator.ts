@@ -0,0 +1,176 @@
+import {Disk_Flag, Terrain} from "./entities/disk";
+import {DiskDescription, WorldDescription} from "./worldfile";
+import {MovementGraph} from "./movementgraph";
+import {Random} from "./helpers/random";
+import {TerrainRegistry} from "./terrain";
+import * as assert from "assert";
+
+export interface GeneratorOptions {
+    seed: number;
+    world_radius: number;
+    //The generator stops adding disks at this count or when there is no room left
+    max_disks: number;
+    //The relative amount of disks of each terrain, terrains left off are not generated
+    terrain_mix: { [terrain: number]: number };
+    //How many placements are tried around a disk before it is considered full
+    tries: number;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: Readonly<GeneratorOptions> = {
+    seed: 0,
+    world_radius: 160,
+    max_disks: 60,
+    terrain_mix: {
+        [Terrain.RED_ROCK]: 4,
+        [Terrain.LEAFY]: 3,
+        [Terrain.ICY]: 2,
+        [Terrain.SANDY]: 2,
+        [Terrain.GREY_ROCK]: 1
+    },
+    tries: 30
+};
+
+//Largest gap left between two touching disks. Well below the movement graph collision offset
+const MAX_GAP = MovementGraph.collision_offset / 2;
+
+//Generates disk worlds by growing disks out from the center of the world.
+//Every new disk is placed touching a disk that was already placed (like poisson disk sampling
+//but with a distance of exactly the two radii) so the movement graph is always connected.
+export namespace WorldGenerator {
+    export function generate(options: Partial<GeneratorOptions> = {}): WorldDescription {
+        let opts: GeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+        let rng = new Random(opts.seed);
+        let random = () => rng.next();
+        let randf = (min: number, max: number) => rng.randf(min, max);
+
+        let terrains = Object.keys(opts.terrain_mix)
+            .map(key => parseInt(key) as Terrain)
+            .filter(terrain => opts.terrain_mix[terrain] > 0);
+        if (terrains.length === 0) throw "Generator terrain mix has no terrains";
+
+        let radiusRange = (terrain: Terrain): [number, number] => TerrainRegistry.get(terrain).radius_range;
+
+        let smallest_terrain = terrains.reduce((a, b) => (radiusRange(a)[0] <= radiusRange(b)[0] ? a : b));
+        let total_weight = terrains.reduce((sum, terrain) => sum + opts.terrain_mix[terrain], 0);
+        let terrain_counts: { [terrain: number]: number } = {};
+        for (let terrain of terrains) terrain_counts[terrain] = 0;
+
+        //Picks the terrain that is furthest below its target fraction of the disks
+        let nextTerrain = (disk_count: number): Terrain => {
+            let best = terrains[0];
+            let best_deficit = -Infinity;
+            for (let terrain of terrains) {
+                let target = (opts.terrain_mix[terrain] / total_weight) * (disk_count + 1);
+                //Small random amount to break ties differently between seeds
+                let deficit = target - terrain_counts[terrain] + random() * 1e-3;
+                if (deficit > best_deficit) {
+                    best_deficit = deficit;
+                    best = terrain;
+                }
+            }
+            return best;
+        };
+
+        let makeDisk = (x: number, z: number, radius: number, terrain: Terrain): DiskDescription => {
+            terrain_counts[terrain]++;
+            return {
+                x: x,
+                y: 0,
+                z: z,
+                radius: radius,
+                terrain: terrain,
+                seed: rng.nextSeed(),
+                flags: Disk_Flag.NONE,
+                height_map: null,
+                height_image: null,
+                motion: null
+            };
+        };
+
+        let disks: DiskDescription[] = [];
+        let active: number[] = [];
+
+        let first_terrain = nextTerrain(0);
+        let first_radius = Math.min(randf(...radiusRange(first_terrain)), opts.world_radius);
+        disks.push(makeDisk(0, 0, first_radius, first_terrain));
+        disks[0].flags |= Disk_Flag.PLAYER_SPAWN;
+        active.push(0);
+
+        while (active.length > 0 && disks.length < opts.max_disks) {
+            let active_index = Math.floor(random() * active.length);
+            let parent = disks[active[active_index]];
+
+            //If the wanted terrain doesn't fit fall back to the smallest terrain before giving up on this disk
+            let placed = false;
+            for (let terrain of [nextTerrain(disks.length), smallest_terrain]) {
+                for (let i = 0; i < opts.tries && !placed; i++) {
+                    let radius = randf(...radiusRange(terrain));
+                    let angle = randf(0, Math.PI * 2);
+                    let distance = parent.radius + radius + randf(0, MAX_GAP);
+                    let x = parent.x + Math.cos(angle) * distance;
+                    let z = parent.z + Math.sin(angle) * distance;
+
+                    if (Math.sqrt(x * x + z * z) + radius > opts.world_radius) continue;
+                    if (overlapsAny(disks, x, z, radius)) continue;
+
+                    active.push(disks.length);
+                    disks.push(makeDisk(x, z, radius, terrain));
+                    placed = true;
+                }
+                if (placed) break;
+            }
+
+            //No room left around this disk
+            if (!placed) active.splice(active_index, 1);
+        }
+
+        assert(isConnected(disks), "Generated world is not connected");
+
+        return {
+            name: "Generated " + opts.seed,
+            metadata: { description: "Generated from seed " + opts.seed },
+            seed: opts.seed,
+            world_radius: opts.world_radius,
+            disks: disks,
+            player_spawn: null,
+            rods: null,
+            ring_count: null,
+            bats: null
+        };
+    }
+
+    //Returns true if every disk can be reached from the first disk through touching disks
+    export function isConnected(disks: ReadonlyArray<DiskDescription>): boolean {
+        if (disks.length === 0) return true;
+
+        let visited = new Array(disks.length).fill(false);
+        let stack = [0];
+        visited[0] = true;
+        let count = 1;
+
+        while (stack.length > 0) {
+            let a = disks[stack.pop()];
+            for (let i = 0; i < disks.length; i++) {
+                if (visited[i]) continue;
+                let b = disks[i];
+                if (MovementGraph.areDisksTouching(a.x, a.z, a.radius, b.x, b.z, b.radius)) {
+                    visited[i] = true;
+                    count++;
+                    stack.push(i);
+                }
+            }
+        }
+        return count === disks.length;
+    }
+
+    function overlapsAny(disks: ReadonlyArray<DiskDescription>, x: number, z: number, radius: number): boolean {
+        for (let disk of disks) {
+            let dx = disk.x - x;
+            let dz = disk.z - z;
+            //Allow for rounding error on disks placed exactly touching
+            let min_distance = disk.radius + radius - 1e-6;
+            if (dx * dx + dz * dz < min_distance * min_distance) return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,339 @@
+import {Disk_Flag} from "./entities/disk";
+import {TerrainRegistry} from "./terrain";
+import {DiskMotion, Disk_Motion_Type, DISK_MOTION_TYPES} from "./diskmotion";
+import {DiskDescription, PositionDescription, RodDescription, WorldDescription, WorldFile} from "./worldfile";
+
+export const WORLD_JSON_FORMAT = "disk-world";
+export const WORLD_JSON_VERSION = 1;
+
+//The JSON world schema
+//Optional fields that are left off get the same defaults as a version 1 disk file
+export interface WorldJsonData {
+    format: string;
+    version: number;
+    metadata?: {
+        name?: string;
+        author?: string;
+        description?: string;
+    };
+    seed?: number;
+    world_radius: number;
+    disks: Array<{
+        x: number;
+        z: number;
+        radius: number;
+        terrain?: string;
+        y?: number;
+        seed?: number;
+        flags?: string[];
+        //Sculpted heightmap. One row of heights per x separated by spaces
+        height_map?: string[];
+        //Grayscale PNG in /assets/worlds/heightmaps/ to sample the heightmap from. The scale defaults to 1
+        height_image?: { file: string; scale?: number };
+        //Linear motions need "to" and orbits need "center"
+        motion?: {
+            type: string;
+            period: number;
+            to?: { x: number; y?: number; z: number };
+            center?: { x: number; z: number };
+        };
+    }>;
+    player_spawn?: { x: number; z: number };
+    pickups?: {
+        rods?: RodDescription[];
+        rings?: number;
+    };
+    bats?: PositionDescription[];
+}
+
+//A JSON object before its fields are checked
+type JsonObject = Record<string, unknown>;
+//Checks a JSON value and narrows it to the type it was checked to be
+type Validator<T> = (value: unknown) => value is T;
+type ErrorFunction = (path: string, message: string) => string;
+
+//Reads and writes worlds as JSON so they can be hand edited and diffed
+export namespace WorldJson {
+    export function parse(data: string, file_name: string = "unnamed"): WorldDescription {
+        let json: unknown;
+        try {
+            json = JSON.parse(data);
+        } catch (e) {
+            throw file_name + ": Invalid JSON: " + e.message;
+        }
+
+        let error = (path: string, message: string): string => file_name + ": " + path + ": " + message;
+
+        if (!isObject(json)) throw error("root", "Expected an object");
+        if (json.format !== WORLD_JSON_FORMAT) throw error("format", "Expected '" + WORLD_JSON_FORMAT + "'");
+        if (json.version !== WORLD_JSON_VERSION) throw error("version", "Unsupported version " + String(json.version));
+
+        let metadata: JsonObject = optional(json, "metadata", isObject, "Expected an object", error) || {};
+        let name = optional(metadata, "name", isString, "Expected a string", error, "metadata") || file_name;
+
+        let world_radius = required(json, "world_radius", isPositive, "Expected a positive number", error);
+        let disks = required(json, "disks", isArray, "Expected an array", error);
+        if (disks.length === 0) throw error("disks", "Expected at least one disk");
+
+        let description: WorldDescription = {
+            name: name,
+            metadata: {
+                author: optional(metadata, "author", isString, "Expected a string", error, "metadata"),
+                description: optional(metadata, "description", isString, "Expected a string", error, "metadata")
+            },
+            seed: null,
+            world_radius: world_radius,
+            disks: disks.map((disk, i) => parseDisk(disk, "disks[" + i + "]", error)),
+            player_spawn: null,
+            rods: null,
+            ring_count: null,
+            bats: null
+        };
+
+        let seed = optional(json, "seed", isSeed, "Expected a 32 bit unsigned integer", error);
+        if (seed !== undefined) description.seed = seed;
+
+        let spawn = optional(json, "player_spawn", isObject, "Expected an object", error);
+        if (spawn)
+            description.player_spawn = {
+                x: required(spawn, "x", isNumber, "Expected a number", error, "player_spawn"),
+                z: required(spawn, "z", isNumber, "Expected a number", error, "player_spawn")
+            };
+
+        let pickups = optional(json, "pickups", isObject, "Expected an object", error);
+        if (pickups) {
+            let rods = optional(pickups, "rods", isArray, "Expected an array", error, "pickups");
+            if (rods)
+                description.rods = rods.map((rod, i) => {
+                    let path = "pickups.rods[" + i + "]";
+                    if (!isObject(rod)) throw error(path, "Expected an object");
+                    return {
+                        x: required(rod, "x", isNumber, "Expected a number", error, path),
+                        z: required(rod, "z", isNumber, "Expected a number", error, path),
+                        value: required(rod, "value", isNumber, "Expected a number", error, path)
+                    };
+                });
+            let rings = optional(pickups, "rings", isCount, "Expected a whole number", error, "pickups");
+            if (rings !== undefined) description.ring_count = rings;
+        }
+
+        let bats = optional(json, "bats", isArray, "Expected an array", error);
+        if (bats)
+            description.bats = bats.map((bat, i) => {
+                let path = "bats[" + i + "]";
+                if (!isObject(bat)) throw error(path, "Expected an object");
+                return {
+                    x: required(bat, "x", isNumber, "Expected a number", error, path),
+                    y: required(bat, "y", isNumber, "Expected a number", error, path),
+                    z: required(bat, "z", isNumber, "Expected a number", error, path)
+                };
+            });
+
+        return description;
+    }
+
+    //Writes a world description as JSON
+    //Fields that have their default value are left off
+    export function stringify(world: WorldDescription): string {
+        let json: WorldJsonData = {
+            format: WORLD_JSON_FORMAT,
+            version: WORLD_JSON_VERSION,
+            metadata: { name: world.name, ...world.metadata },
+            world_radius: world.world_radius,
+            disks: world.disks.map(disk => {
+                let data: WorldJsonData["disks"][0] = {
+                    x: disk.x,
+                    z: disk.z,
+                    radius: disk.radius,
+                    terrain: TerrainRegistry.get(disk.terrain).name
+                };
+                if (disk.y !== 0) data.y = disk.y;
+                if (disk.seed !== null) data.seed = disk.seed;
+                if (disk.flags !== Disk_Flag.NONE) data.flags = WorldFile.flagNames(disk.flags);
+                if (disk.height_map) data.height_map = disk.height_map.map(row => row.map(formatHeight).join(" "));
+                if (disk.height_image) {
+                    data.height_image = { file: disk.height_image.file };
+                    if (disk.height_image.scale !== 1) data.height_image.scale = disk.height_image.scale;
+                }
+                if (disk.motion) {
+                    data.motion = { type: disk.motion.type, period: disk.motion.period };
+                    if (disk.motion.to) {
+                        data.motion.to = { x: disk.motion.to.x, z: disk.motion.to.z };
+                        if (disk.motion.to.y !== disk.y) data.motion.to.y = disk.motion.to.y;
+                    }
+                    if (disk.motion.center) data.motion.center = { ...disk.motion.center };
+                }
+                return data;
+            })
+        };
+
+        if (world.seed !== null) json.seed = world.seed;
+        if (world.player_spawn) json.player_spawn = { x: world.player_spawn.x, z: world.player_spawn.z };
+        if (world.rods || world.ring_count !== null) {
+            json.pickups = {};
+            if (world.rods) json.pickups.rods = world.rods.map(rod => ({ ...rod }));
+            if (world.ring_count !== null) json.pickups.rings = world.ring_count;
+        }
+        if (world.bats) json.bats = world.bats.map(bat => ({ ...bat }));
+
+        return JSON.stringify(json, null, 4) + "\n";
+    }
+
+    function parseDisk(disk: unknown, path: string, error: ErrorFunction): DiskDescription {
+        if (!isObject(disk)) throw error(path, "Expected an object");
+
+        let radius = required(disk, "radius", isPositive, "Expected a positive number", error, path);
+        let description: DiskDescription = {
+            x: required(disk, "x", isNumber, "Expected a number", error, path),
+            y: optional(disk, "y", isNumber, "Expected a number", error, path) || 0,
+            z: required(disk, "z", isNumber, "Expected a number", error, path),
+            radius: radius,
+            terrain: WorldFile.terrainForRadius(radius),
+            seed: null,
+            flags: Disk_Flag.NONE,
+            height_map: null,
+            height_image: null,
+            motion: null
+        };
+
+        let terrain = optional(disk, "terrain", isString, "Expected a string", error, path);
+        if (terrain !== undefined) {
+            description.terrain = WorldFile.terrainFromName(terrain);
+            if (description.terrain === undefined) throw error(path + ".terrain", "Unknown terrain '" + terrain + "'");
+        }
+
+        let seed = optional(disk, "seed", isSeed, "Expected a 32 bit unsigned integer", error, path);
+        if (seed !== undefined) description.seed = seed;
+
+        let flags = optional(disk, "flags", isArray, "Expected an array", error, path);
+        if (flags)
+            for (let name of flags) {
+                let flag = typeof name === "string" ? WorldFile.flagFromName(name) : undefined;
+                if (flag === undefined) throw error(path + ".flags", "Unknown flag '" + String(name) + "'");
+                description.flags |= flag;
+            }
+
+        let height_map = optional(disk, "height_map", isArray, "Expected an array", error, path);
+        if (height_map) description.height_map = parseHeightMap(height_map, path + ".height_map", error);
+
+        let height_image = optional(disk, "height_image", isObject, "Expected an object", error, path);
+        if (height_image) {
+            let image_path = path + ".height_image";
+            description.height_image = {
+                file: required(height_image, "file", isString, "Expected a string", error, image_path),
+                scale: optional(height_image, "scale", isNumber, "Expected a number", error, image_path)
+            };
+            if (description.height_image.scale === undefined) description.height_image.scale = 1;
+        }
+
+        let motion = optional(disk, "motion", isObject, "Expected an object", error, path);
+        if (motion) description.motion = parseMotion(motion, description, path + ".motion", error);
+
+        return description;
+    }
+
+    //A linear motion's to.y defaults to the height of the disk so it moves level
+    function parseMotion(motion: JsonObject, disk: DiskDescription, path: string, error: ErrorFunction): DiskMotion {
+        let type = required(motion, "type", isString, "Expected a string", error, path);
+        if (!isMotionType(type)) throw error(path + ".type", "Unknown motion '" + type + "'");
+        let period = required(motion, "period", isNumber, "Expected a number", error, path);
+        if (period === 0) throw error(path + ".period", "Expected a number that isn't 0");
+
+        let description: DiskMotion = { type: type, period: period, to: null, center: null };
+        if (type === Disk_Motion_Type.LINEAR) {
+            let to = required(motion, "to", isObject, "Expected an object", error, path);
+            description.to = {
+                x: required(to, "x", isNumber, "Expected a number", error, path + ".to"),
+                y: optional(to, "y", isNumber, "Expected a number", error, path + ".to"),
+                z: required(to, "z", isNumber, "Expected a number", error, path + ".to")
+            };
+            if (description.to.y === undefined) description.to.y = disk.y;
+        } else if (type === Disk_Motion_Type.ORBIT) {
+            let center = required(motion, "center", isObject, "Expected an object", error, path);
+            description.center = {
+                x: required(center, "x", isNumber, "Expected a number", error, path + ".center"),
+                z: required(center, "z", isNumber, "Expected a number", error, path + ".center")
+            };
+        }
+        return description;
+    }
+
+    //The heightmap must be square with an even number of cells per side like a generated one
+    function parseHeightMap(rows: unknown[], path: string, error: ErrorFunction): number[][] {
+        let n = rows.length;
+        if (n < 3 || (n - 1) % 2 !== 0) throw error(path, "Expected an odd number of rows of at least 3");
+        return rows.map((row, x) => {
+            if (!isString(row)) throw error(path + "[" + x + "]", "Expected a string of heights");
+            let heights = row.trim().split(/\s+/).map(Number);
+            if (heights.length !== n) throw error(path + "[" + x + "]", "Expected " + n + " heights");
+            if (!heights.every(isNumber)) throw error(path + "[" + x + "]", "Invalid height");
+            return heights;
+        });
+    }
+
+    //Heights are saved to 4 decimal places to keep the files small
+    function formatHeight(height: number): string {
+        return String(Math.round(height * 1e4) / 1e4);
+    }
+
+    //Returns the value of a field that must be present and valid
+    function required<T>(
+        object: JsonObject,
+        key: string,
+        valid: Validator<T>,
+        message: string,
+        error: ErrorFunction,
+        path?: string
+    ): T {
+        let value = object[key];
+        let full_path = path ? path + "." + key : key;
+        if (value === undefined) throw error(full_path, "Missing required field");
+        if (!valid(value)) throw error(full_path, message);
+        return value;
+    }
+
+    //Returns the value of a field that may be left off, or undefined if it was left off
+    function optional<T>(
+        object: JsonObject,
+        key: string,
+        valid: Validator<T>,
+        message: string,
+        error: ErrorFunction,
+        path?: string
+    ): T | undefined {
+        if (object[key] === undefined) return undefined;
+        return required(object, key, valid, message, error, path);
+    }
+
+    function isObject(value: unknown): value is JsonObject {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    function isArray(value: unknown): value is unknown[] {
+        return Array.isArray(value);
+    }
+
+    function isString(value: unknown): value is string {
+        return typeof value === "string";
+    }
+
+    function isNumber(value: unknown): value is number {
+        return typeof value === "number" && isFinite(value);
+    }
+
+    function isPositive(value: unknown): value is number {
+        return isNumber(value) && value > 0;
+    }
+
+    function isCount(value: unknown): value is number {
+        return isNumber(value) && Number.isInteger(value) && value >= 0;
+    }
+
+    function isSeed(value: unknown): value is number {
+        return isCount(value) && value <= 0xffffffff;
+    }
+
+    function isMotionType(value: string): value is Disk_Motion_Type {
+        return DISK_MOTION_TYPES.indexOf(value) !== -1;
+    }
+}
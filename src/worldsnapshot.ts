@@ -0,0 +1,295 @@
+import * as zlib from "zlib";
+import {DiskDescription, WorldDescription} from "./worldfile";
+import {Disk_Motion_Type, DISK_MOTION_TYPES} from "./diskmotion";
+
+const MAGIC = "DSKS";
+//Version 1 stored heights as float32, they are still read but the heights lost precision
+export const WORLD_SNAPSHOT_VERSION = 2;
+
+const DISK_SCULPTED = 1;
+const DISK_HEIGHT_IMAGE = 2;
+const DISK_MOTION = 4;
+
+//A world and the heightmaps its disks had when it was saved
+export interface WorldSnapshotData {
+    world: WorldDescription;
+    //Heights indexed [disk][x][z]
+    height_maps: number[][][];
+}
+
+//Binary world snapshots with every heightmap so a world can be restored without generating it
+//
+//The file is the magic "DSKS" and a little endian uint16 version followed by a zlib stream of:
+//  the world fields, then for each disk its fields, terrain id, seed and its heightmap
+//  as a uint16 size and (size + 1)^2 float64 heights indexed [x][z], exactly the heights the disk had
+//Strings are a uint32 byte length then UTF-8. Optional fields have a uint8 presence flag before them
+export namespace WorldSnapshot {
+    export function encode(world: WorldDescription, height_maps: number[][][]): Uint8Array {
+        if (height_maps.length !== world.disks.length) throw "World snapshot needs one heightmap per disk";
+        let writer = new Writer();
+
+        writer.string(world.name);
+        writer.optional(world.metadata.author, value => writer.string(value));
+        writer.optional(world.metadata.description, value => writer.string(value));
+        writer.optional(world.seed, value => writer.u32(value));
+        writer.f64(world.world_radius);
+        writer.optional(world.player_spawn, spawn => {
+            writer.f64(spawn.x);
+            writer.f64(spawn.z);
+        });
+        writer.optional(world.rods, rods => {
+            writer.u32(rods.length);
+            for (let rod of rods) {
+                writer.f64(rod.x);
+                writer.f64(rod.z);
+                writer.f64(rod.value);
+            }
+        });
+        writer.optional(world.ring_count, value => writer.u32(value));
+        writer.optional(world.bats, bats => {
+            writer.u32(bats.length);
+            for (let bat of bats) {
+                writer.f64(bat.x);
+                writer.f64(bat.y);
+                writer.f64(bat.z);
+            }
+        });
+
+        writer.u32(world.disks.length);
+        for (let [i, disk] of world.disks.entries()) {
+            writer.f64(disk.x);
+            writer.f64(disk.y);
+            writer.f64(disk.z);
+            writer.f64(disk.radius);
+            writer.u16(disk.terrain);
+            writer.optional(disk.seed, value => writer.u32(value));
+            writer.u32(disk.flags);
+            writer.u8(
+                (disk.height_map ? DISK_SCULPTED : 0) |
+                    (disk.height_image ? DISK_HEIGHT_IMAGE : 0) |
+                    (disk.motion ? DISK_MOTION : 0)
+            );
+            if (disk.height_image) {
+                writer.string(disk.height_image.file);
+                writer.f64(disk.height_image.scale);
+            }
+            if (disk.motion) {
+                writer.string(disk.motion.type);
+                writer.f64(disk.motion.period);
+                writer.optional(disk.motion.to, to => {
+                    writer.f64(to.x);
+                    writer.f64(to.y);
+                    writer.f64(to.z);
+                });
+                writer.optional(disk.motion.center, center => {
+                    writer.f64(center.x);
+                    writer.f64(center.z);
+                });
+            }
+
+            let height_map = height_maps[i];
+            writer.u16(height_map.length - 1);
+            for (let row of height_map) {
+                if (row.length !== height_map.length) throw "World snapshot heightmaps must be square";
+                for (let height of row) writer.f64(height);
+            }
+        }
+
+        let payload = zlib.deflateSync(Buffer.from(writer.finish()));
+        let data = new Uint8Array(6 + payload.length);
+        for (let i = 0; i < MAGIC.length; i++) data[i] = MAGIC.charCodeAt(i);
+        new DataView(data.buffer).setUint16(4, WORLD_SNAPSHOT_VERSION, true);
+        data.set(payload, 6);
+        return data;
+    }
+
+    export function decode(data: Uint8Array, file_name: string = "unnamed"): WorldSnapshotData {
+        for (let i = 0; i < MAGIC.length; i++) {
+            if (data[i] !== MAGIC.charCodeAt(i)) throw file_name + ": Not a world snapshot";
+        }
+        let version = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint16(4, true);
+        if (version !== 1 && version !== WORLD_SNAPSHOT_VERSION)
+            throw file_name + ": Unsupported snapshot version " + version;
+
+        let payload: Uint8Array;
+        try {
+            payload = new Uint8Array(zlib.inflateSync(Buffer.from(data.subarray(6))));
+        } catch (e) {
+            throw file_name + ": Corrupt snapshot: " + e.message;
+        }
+        let reader = new Reader(payload, file_name);
+
+        let world: WorldDescription = {
+            name: reader.string(),
+            metadata: {
+                author: reader.optional(() => reader.string()),
+                description: reader.optional(() => reader.string())
+            },
+            seed: reader.optional(() => reader.u32()),
+            world_radius: reader.f64(),
+            disks: [],
+            player_spawn: reader.optional(() => ({ x: reader.f64(), z: reader.f64() })),
+            rods: reader.optional(() =>
+                reader.array(() => ({ x: reader.f64(), z: reader.f64(), value: reader.f64() }))
+            ),
+            ring_count: reader.optional(() => reader.u32()),
+            bats: reader.optional(() => reader.array(() => ({ x: reader.f64(), y: reader.f64(), z: reader.f64() })))
+        };
+        //Metadata that wasn't saved is left off like in the other formats
+        if (world.metadata.author === null) delete world.metadata.author;
+        if (world.metadata.description === null) delete world.metadata.description;
+
+        let height_maps: number[][][] = [];
+        let disk_count = reader.u32();
+        for (let i = 0; i < disk_count; i++) {
+            let disk: DiskDescription = {
+                x: reader.f64(),
+                y: reader.f64(),
+                z: reader.f64(),
+                radius: reader.f64(),
+                terrain: reader.u16(),
+                seed: reader.optional(() => reader.u32()),
+                flags: reader.u32(),
+                height_map: null,
+                height_image: null,
+                motion: null
+            };
+            let bits = reader.u8();
+            if (bits & DISK_HEIGHT_IMAGE) disk.height_image = { file: reader.string(), scale: reader.f64() };
+            if (bits & DISK_MOTION) {
+                let type = reader.string();
+                if (DISK_MOTION_TYPES.indexOf(type) === -1) throw file_name + ": Unknown disk motion '" + type + "'";
+                disk.motion = {
+                    type: type as Disk_Motion_Type,
+                    period: reader.f64(),
+                    to: reader.optional(() => ({ x: reader.f64(), y: reader.f64(), z: reader.f64() })),
+                    center: reader.optional(() => ({ x: reader.f64(), z: reader.f64() }))
+                };
+            }
+
+            let n = reader.u16() + 1;
+            let height_map: number[][] = new Array(n);
+            for (let x = 0; x < n; x++) {
+                height_map[x] = new Array(n);
+                for (let z = 0; z < n; z++) height_map[x][z] = version === 1 ? reader.f32() : reader.f64();
+            }
+            if (bits & DISK_SCULPTED) disk.height_map = height_map.map(row => row.slice());
+
+            world.disks.push(disk);
+            height_maps.push(height_map);
+        }
+        if (!reader.done()) throw file_name + ": Unexpected data after the last disk";
+
+        return { world: world, height_maps: height_maps };
+    }
+
+    class Writer {
+        private data = new Uint8Array(1024);
+        private view = new DataView(this.data.buffer);
+        private length = 0;
+
+        u8(value: number): void {
+            this.reserve(1).setUint8(this.length - 1, value);
+        }
+
+        u16(value: number): void {
+            this.reserve(2).setUint16(this.length - 2, value, true);
+        }
+
+        u32(value: number): void {
+            this.reserve(4).setUint32(this.length - 4, value, true);
+        }
+
+        f64(value: number): void {
+            this.reserve(8).setFloat64(this.length - 8, value, true);
+        }
+
+        string(value: string): void {
+            let bytes = new TextEncoder().encode(value);
+            this.u32(bytes.length);
+            this.reserve(bytes.length);
+            this.data.set(bytes, this.length - bytes.length);
+        }
+
+        //Writes a presence flag and the value if it isn't null or undefined
+        optional<T>(value: T | null | undefined, write: (value: T) => void): void {
+            let present = value !== null && value !== undefined;
+            this.u8(present ? 1 : 0);
+            if (present) write(value);
+        }
+
+        finish(): Uint8Array {
+            return this.data.subarray(0, this.length);
+        }
+
+        //Grows the buffer to fit count more bytes and moves the end past them
+        private reserve(count: number): DataView {
+            if (this.length + count > this.data.length) {
+                let data = new Uint8Array(Math.max(this.data.length * 2, this.length + count));
+                data.set(this.data);
+                this.data = data;
+                this.view = new DataView(data.buffer);
+            }
+            this.length += count;
+            return this.view;
+        }
+    }
+
+    class Reader {
+        private readonly view: DataView;
+        private offset = 0;
+
+        constructor(private readonly data: Uint8Array, private readonly file_name: string) {
+            this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        }
+
+        u8(): number {
+            return this.view.getUint8(this.skip(1));
+        }
+
+        u16(): number {
+            return this.view.getUint16(this.skip(2), true);
+        }
+
+        u32(): number {
+            return this.view.getUint32(this.skip(4), true);
+        }
+
+        f32(): number {
+            return this.view.getFloat32(this.skip(4), true);
+        }
+
+        f64(): number {
+            return this.view.getFloat64(this.skip(8), true);
+        }
+
+        string(): string {
+            let length = this.u32();
+            let start = this.skip(length);
+            return new TextDecoder().decode(this.data.subarray(start, start + length));
+        }
+
+        //Reads a presence flag and the value, or returns null if it isn't there
+        optional<T>(read: () => T): T | null {
+            return this.u8() ? read() : null;
+        }
+
+        array<T>(read: () => T): T[] {
+            let count = this.u32();
+            let values: T[] = [];
+            for (let i = 0; i < count; i++) values.push(read());
+            return values;
+        }
+
+        done(): boolean {
+            return this.offset === this.data.length;
+        }
+
+        //Returns where the next count bytes start and moves past them
+        private skip(count: number): number {
+            if (this.offset + count > this.data.length) throw this.file_name + ": Snapshot ends early";
+            this.offset += count;
+            return this.offset - count;
+        }
+    }
+}
@@ -0,0 +1,23 @@
+const path = require('path');
+const config = require('./webpack.config.js');
+
+
+//Bundles the pathfinding benchmark to run in Node, with the same loaders as the game
+module.exports = (env, argv) => {
+	return {
+		...config(env, argv),
+		target: 'node',
+		entry: {
+			'pathbenchmark': './src/pathbenchmark.ts'
+		},
+		output: {
+			path: path.resolve(__dirname, 'build'),
+			filename: '[name].js'
+		},
+		plugins: [],
+		// Maps are read relative to the bundle
+		node: {
+			__dirname: false
+		}
+	}
+};
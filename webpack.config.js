@@ -61,6 +61,13 @@ module.exports = (env, argv) => {
 				{
 					test: /\.(txt|obj|mtl|bmp|jpg)$/,
 					loader: 'raw-loader'
+				},
+				// JSON worlds are parsed by WorldJson so load them as text
+				{
+					test: /\.json$/,
+					include: path.resolve(__dirname, 'assets/worlds'),
+					type: 'javascript/auto',
+					loader: 'raw-loader'
 				}
 			]
 		},